@@ -0,0 +1,16 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+const config: CodegenConfig = {
+  overwrite: true,
+  schema: process.env['CIS_GRAPHQL_URL'] ?? 'http://localhost:8083/graphql',
+  generates: {
+    'src/app/core/graphql/schema.graphql': {
+      plugins: ['schema-ast'],
+      config: {
+        includeDirectives: false
+      }
+    }
+  }
+};
+
+export default config;
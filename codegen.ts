@@ -0,0 +1,23 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+const config: CodegenConfig = {
+  overwrite: true,
+  schema: 'src/app/core/graphql/schema.graphql',
+  documents: 'src/app/core/graphql/operations/**/*.graphql',
+  generates: {
+    'src/app/core/graphql/generated/graphql.ts': {
+      plugins: ['typescript', 'typescript-operations', 'typed-document-node'],
+      config: {
+        useTypeImports: true,
+        enumsAsTypes: true,
+        skipTypename: true,
+        dedupeFragments: true,
+        scalars: {
+          ID: { input: 'string | number', output: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export default config;
@@ -1,49 +1,152 @@
 import { Routes } from '@angular/router';
 
 import { authGuard } from './core/auth/auth.guard';
-import { LoginPage } from './features/login/login.page';
-import { ShellLayout } from './features/shell/shell.layout';
-import { DashboardPage } from './features/dashboard/dashboard.page';
-import { ProductsPage } from './features/products/products.page';
-import { CategoriesPage } from './features/categories/categories.page';
-import { InventoryPage } from './features/inventory/inventory.page';
-import { StockMovementsPage } from './features/stock-movements/stock-movements.page';
-import { PurchasingPage } from './features/purchasing/purchasing.page';
-import { SalesPage } from './features/sales/sales.page';
-import { MySalesPage } from './features/my-sales/my-sales.page';
-import { MySalesReportPage } from './features/my-sales-report/my-sales-report.page';
-import { ExpiryAlertsPage } from './features/expiry-alerts/expiry-alerts.page';
-import { ReportsPage } from './features/reports/reports.page';
-import { ProfitManagementPage } from './features/profit-management/profit-management.page';
-import { UsersPage } from './features/users/users.page';
-import { HomePage } from './features/home/home.page';
-import { ExpensesPage } from './features/expenses/expenses.page';
-import { ExpenseCategoriesPage } from './features/expense-categories/expense-categories.page';
+import { permissionGuard } from './core/auth/permission.guard';
 
 export const routes: Routes = [
   { path: '', pathMatch: 'full', redirectTo: 'home' },
-  { path: 'login', component: LoginPage },
+  {
+    path: 'login',
+    loadComponent: () => import('./features/login/login.page').then((m) => m.LoginPage)
+  },
   {
     path: '',
-    component: ShellLayout,
+    loadComponent: () => import('./features/shell/shell.layout').then((m) => m.ShellLayout),
     canActivate: [authGuard],
+    canActivateChild: [permissionGuard],
     children: [
-      { path: 'home', component: HomePage },
-      { path: 'dashboard', component: DashboardPage },
-      { path: 'products', component: ProductsPage },
-      { path: 'categories', component: CategoriesPage },
-      { path: 'inventory', component: InventoryPage },
-      { path: 'stock-movements', component: StockMovementsPage },
-      { path: 'purchasing', component: PurchasingPage },
-      { path: 'sales', component: SalesPage },
-      { path: 'my-sales', component: MySalesPage },
-      { path: 'my-sales-report', component: MySalesReportPage },
-      { path: 'expiry-alerts', component: ExpiryAlertsPage },
-      { path: 'expenses', component: ExpensesPage },
-      { path: 'expense-categories', component: ExpenseCategoriesPage },
-      { path: 'reports', component: ReportsPage },
-      { path: 'profit-management', component: ProfitManagementPage },
-      { path: 'users', component: UsersPage }
+      {
+        path: 'home',
+        loadComponent: () => import('./features/home/home.page').then((m) => m.HomePage),
+        data: { module: null }
+      },
+      {
+        path: 'dashboard',
+        loadComponent: () =>
+          import('./features/dashboard/dashboard.page').then((m) => m.DashboardPage),
+        data: { module: null }
+      },
+      {
+        path: 'products',
+        loadComponent: () =>
+          import('./features/products/products.page').then((m) => m.ProductsPage),
+        data: { module: 'PRODUCTS' }
+      },
+      {
+        path: 'products/duplicates',
+        loadComponent: () =>
+          import('./features/products/product-duplicates/product-duplicates.page').then(
+            (m) => m.ProductDuplicatesPage
+          ),
+        data: { module: 'PRODUCTS' }
+      },
+      {
+        path: 'products/:id',
+        loadComponent: () =>
+          import('./features/products/product-detail/product-detail.page').then(
+            (m) => m.ProductDetailPage
+          ),
+        data: { module: 'PRODUCTS' }
+      },
+      {
+        path: 'categories',
+        loadComponent: () =>
+          import('./features/categories/categories.page').then((m) => m.CategoriesPage),
+        data: { module: 'CATEGORIES' }
+      },
+      {
+        path: 'units',
+        loadComponent: () => import('./features/units/units.page').then((m) => m.UnitsPage),
+        data: { module: 'PRODUCTS' }
+      },
+      {
+        path: 'inventory',
+        loadComponent: () =>
+          import('./features/inventory/inventory.page').then((m) => m.InventoryPage),
+        data: { module: 'INVENTORY' }
+      },
+      {
+        path: 'stock-movements',
+        loadComponent: () =>
+          import('./features/stock-movements/stock-movements.page').then(
+            (m) => m.StockMovementsPage
+          ),
+        data: { module: 'STOCK_MOVEMENTS' }
+      },
+      {
+        path: 'purchasing',
+        loadComponent: () =>
+          import('./features/purchasing/purchasing.page').then((m) => m.PurchasingPage),
+        data: { module: 'PURCHASING' }
+      },
+      {
+        path: 'sales',
+        loadComponent: () => import('./features/sales/sales.page').then((m) => m.SalesPage),
+        data: { module: 'SALES' }
+      },
+      {
+        path: 'my-sales',
+        loadComponent: () => import('./features/my-sales/my-sales.page').then((m) => m.MySalesPage),
+        data: { module: 'MY_SALES' }
+      },
+      {
+        path: 'my-sales-report',
+        loadComponent: () =>
+          import('./features/my-sales-report/my-sales-report.page').then(
+            (m) => m.MySalesReportPage
+          ),
+        data: { module: 'MY_SALES' }
+      },
+      {
+        path: 'expiry-alerts',
+        loadComponent: () =>
+          import('./features/expiry-alerts/expiry-alerts.page').then((m) => m.ExpiryAlertsPage),
+        data: { module: 'INVENTORY' }
+      },
+      {
+        path: 'expenses',
+        loadComponent: () =>
+          import('./features/expenses/expenses.page').then((m) => m.ExpensesPage),
+        data: { module: 'EXPENSES' }
+      },
+      {
+        path: 'expense-categories',
+        loadComponent: () =>
+          import('./features/expense-categories/expense-categories.page').then(
+            (m) => m.ExpenseCategoriesPage
+          ),
+        data: { module: 'EXPENSE_CATEGORIES' }
+      },
+      {
+        path: 'reports',
+        loadComponent: () => import('./features/reports/reports.page').then((m) => m.ReportsPage),
+        data: { module: 'REPORTS' }
+      },
+      {
+        path: 'profit-management',
+        loadComponent: () =>
+          import('./features/profit-management/profit-management.page').then(
+            (m) => m.ProfitManagementPage
+          ),
+        data: { module: 'PROFIT_MANAGEMENT' }
+      },
+      {
+        path: 'users',
+        loadComponent: () => import('./features/users/users.page').then((m) => m.UsersPage),
+        data: { module: 'USERS_ROLES' }
+      },
+      {
+        path: 'audit-log',
+        loadComponent: () =>
+          import('./features/audit-log/audit-log.page').then((m) => m.AuditLogPage),
+        data: { module: 'AUDIT_LOG' }
+      },
+      {
+        path: 'no-access',
+        loadComponent: () =>
+          import('./features/no-access/no-access.page').then((m) => m.NoAccessPage),
+        data: { module: null }
+      }
     ]
   },
   { path: '**', redirectTo: 'home' }
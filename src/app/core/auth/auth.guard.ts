@@ -1,14 +1,28 @@
 import { inject } from '@angular/core';
 import { CanActivateFn, Router } from '@angular/router';
+import { catchError, map, of } from 'rxjs';
 import { AuthService } from './auth.service';
 
-export const authGuard: CanActivateFn = () => {
+export const authGuard: CanActivateFn = (_route, state) => {
   const auth = inject(AuthService);
   const router = inject(Router);
 
-  if (auth.isAuthenticated()) {
+  const loginUrl = () => router.createUrlTree(['/login'], { queryParams: { returnUrl: state.url } });
+
+  if (!auth.accessToken()) {
+    return loginUrl();
+  }
+
+  if (!auth.isExpired()) {
     return true;
   }
 
-  return router.parseUrl('/login');
+  return auth.refresh().pipe(
+    map((token) => {
+      if (token) return true;
+      auth.clear();
+      return loginUrl();
+    }),
+    catchError(() => of(true))
+  );
 };
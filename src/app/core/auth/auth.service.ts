@@ -1,28 +1,203 @@
-import { Injectable, signal } from '@angular/core';
+import { HttpBackend, HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { print } from 'graphql';
+import { type Observable, catchError, finalize, map, of, shareReplay, throwError } from 'rxjs';
+
+import { environment } from '../../../environments/environment';
+import { RefreshTokenDocument, type RefreshTokenMutation } from '../graphql/generated/graphql';
 
 export type AuthState = {
   accessToken: string | null;
 };
 
+type TokenClaims = {
+  sub?: string;
+  exp?: number;
+};
+
+type RefreshResponse = {
+  data?: RefreshTokenMutation | null;
+  errors?: GraphqlError[];
+};
+
+type GraphqlError = {
+  message?: string;
+  extensions?: Record<string, unknown>;
+};
+
 const STORAGE_KEY = 'cisystem.accessToken';
+const REFRESH_STORAGE_KEY = 'cisystem.refreshToken';
+
+const EXPIRY_SKEW_MS = 30_000;
+const REFRESH_RETRY_MS = 30_000;
+
+const UNAUTHENTICATED_CODES = ['UNAUTHENTICATED', 'UNAUTHORIZED'];
+
+export function isUnauthenticated(body: unknown): boolean {
+  const errors = (body as { errors?: GraphqlError[] } | null)?.errors ?? [];
+  return errors.some((err) => {
+    const code = err.extensions?.['code'] ?? err.extensions?.['classification'];
+    return UNAUTHENTICATED_CODES.includes(String(code ?? '').toUpperCase());
+  });
+}
+
+function tokenClaims(token: string | null): TokenClaims | null {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '='));
+    return JSON.parse(json) as TokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+function tokenExpiry(token: string | null): number | null {
+  const exp = Number(tokenClaims(token)?.exp);
+  return Number.isFinite(exp) && exp > 0 ? exp * 1000 : null;
+}
 
 @Injectable({ providedIn: 'root' })
 export class AuthService {
-  private readonly _accessToken = signal<string | null>(localStorage.getItem(STORAGE_KEY));
+  private storage: Storage = localStorage.getItem(STORAGE_KEY) ? localStorage : sessionStorage;
+
+  private readonly _accessToken = signal<string | null>(this.storage.getItem(STORAGE_KEY));
+  private readonly _refreshToken = signal<string | null>(this.storage.getItem(REFRESH_STORAGE_KEY));
+  private readonly _session = signal(0);
 
   accessToken = this._accessToken.asReadonly();
+  session = this._session.asReadonly();
+  userId = computed(() => {
+    const sub = tokenClaims(this._accessToken())?.sub;
+    return sub ? String(sub) : null;
+  });
+
+  private readonly router = inject(Router);
+  private readonly http = new HttpClient(inject(HttpBackend));
+
+  private refreshing: Observable<string | null> | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.scheduleExpiry();
+  }
 
   isAuthenticated(): boolean {
-    return !!this._accessToken();
+    return !!this._accessToken() && (!this.isExpired() || this.canRefresh());
+  }
+
+  isExpired(): boolean {
+    const exp = tokenExpiry(this._accessToken());
+    return exp !== null && exp - EXPIRY_SKEW_MS <= Date.now();
+  }
+
+  canRefresh(): boolean {
+    return !!this._refreshToken();
   }
 
-  setAccessToken(token: string): void {
-    localStorage.setItem(STORAGE_KEY, token);
+  isRemembered(): boolean {
+    return this.storage === localStorage;
+  }
+
+  setAccessToken(token: string, refreshToken?: string | null, remember = this.isRemembered()): void {
+    const storage = remember ? localStorage : sessionStorage;
+    if (storage !== this.storage) {
+      this.storage.removeItem(STORAGE_KEY);
+      this.storage.removeItem(REFRESH_STORAGE_KEY);
+      if (refreshToken === undefined) refreshToken = this._refreshToken();
+      this.storage = storage;
+    }
+
+    storage.setItem(STORAGE_KEY, token);
     this._accessToken.set(token);
+
+    if (refreshToken !== undefined) {
+      if (refreshToken) {
+        storage.setItem(REFRESH_STORAGE_KEY, refreshToken);
+      } else {
+        storage.removeItem(REFRESH_STORAGE_KEY);
+      }
+      this._refreshToken.set(refreshToken);
+    }
+
+    this.scheduleExpiry();
+  }
+
+  startSession(token: string, refreshToken: string | null, remember?: boolean): void {
+    this.setAccessToken(token, refreshToken, remember);
+    this._session.update((n) => n + 1);
+  }
+
+  refresh(): Observable<string | null> {
+    const refreshToken = this._refreshToken();
+    if (!refreshToken) return of(null);
+
+    this.refreshing ??= this.http
+      .post<RefreshResponse>(environment.graphqlUrl, {
+        operationName: 'RefreshToken',
+        query: print(RefreshTokenDocument),
+        variables: { input: { refreshToken } }
+      })
+      .pipe(
+        map((res) => {
+          const payload = res.data?.refreshToken;
+          if (!payload?.accessToken) {
+            if (res.errors?.length && !isUnauthenticated(res)) {
+              throw new Error(res.errors[0].message ?? 'Failed to refresh session');
+            }
+            return null;
+          }
+          this.setAccessToken(payload.accessToken, payload.refreshToken ?? refreshToken);
+          return payload.accessToken;
+        }),
+        catchError((e: unknown) => (e instanceof HttpErrorResponse && e.status === 401 ? of(null) : throwError(() => e))),
+        finalize(() => (this.refreshing = null)),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+
+    return this.refreshing;
+  }
+
+  expire(returnUrl = this.router.url): void {
+    this.clear();
+    const queryParams = returnUrl && returnUrl !== '/' && !returnUrl.startsWith('/login') ? { returnUrl } : {};
+    this.router.navigate(['/login'], { queryParams });
   }
 
   clear(): void {
-    localStorage.removeItem(STORAGE_KEY);
+    for (const storage of [localStorage, sessionStorage]) {
+      storage.removeItem(STORAGE_KEY);
+      storage.removeItem(REFRESH_STORAGE_KEY);
+    }
     this._accessToken.set(null);
+    this._refreshToken.set(null);
+    this._session.update((n) => n + 1);
+    this.scheduleExpiry();
+  }
+
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.expiryTimer = null;
+
+    const exp = tokenExpiry(this._accessToken());
+    if (exp === null) return;
+
+    const delay = exp - EXPIRY_SKEW_MS - Date.now();
+    if (delay <= 0) return;
+
+    this.expiryTimer = setTimeout(() => this.refreshOrExpire(), Math.min(delay, 2 ** 31 - 1));
+  }
+
+  private refreshOrExpire(): void {
+    this.refresh().subscribe({
+      next: (token) => {
+        if (!token) this.expire();
+      },
+      error: () => {
+        this.expiryTimer = setTimeout(() => this.refreshOrExpire(), REFRESH_RETRY_MS);
+      }
+    });
   }
 }
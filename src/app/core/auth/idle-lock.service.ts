@@ -0,0 +1,64 @@
+import { Injectable, effect, signal } from '@angular/core';
+
+import { environment } from '../../../environments/environment';
+import { AuthService } from './auth.service';
+
+const LOCKED_KEY = 'cisystem.locked';
+const TIMEOUT_KEY = 'cisystem.idleLockMinutes';
+
+const CHECK_INTERVAL_MS = 15_000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'mousemove'];
+
+export const IDLE_LOCK_OPTIONS = [0, 2, 5, 10, 15, 30, 60];
+
+@Injectable({ providedIn: 'root' })
+export class IdleLockService {
+  private readonly _locked = signal(localStorage.getItem(LOCKED_KEY) === '1');
+  private readonly _timeoutMinutes = signal(this.storedTimeout());
+
+  readonly locked = this._locked.asReadonly();
+  readonly timeoutMinutes = this._timeoutMinutes.asReadonly();
+
+  private lastActivity = Date.now();
+
+  constructor(private readonly auth: AuthService) {
+    for (const name of ACTIVITY_EVENTS) {
+      window.addEventListener(name, () => (this.lastActivity = Date.now()), { passive: true, capture: true });
+    }
+    window.setInterval(() => this.check(), CHECK_INTERVAL_MS);
+
+    effect(() => {
+      if (!this.auth.accessToken()) this.unlock();
+    });
+  }
+
+  lock(): void {
+    if (!this.auth.accessToken()) return;
+    localStorage.setItem(LOCKED_KEY, '1');
+    this._locked.set(true);
+  }
+
+  unlock(): void {
+    localStorage.removeItem(LOCKED_KEY);
+    this._locked.set(false);
+    this.lastActivity = Date.now();
+  }
+
+  setTimeoutMinutes(minutes: number): void {
+    localStorage.setItem(TIMEOUT_KEY, String(minutes));
+    this._timeoutMinutes.set(minutes);
+    this.lastActivity = Date.now();
+  }
+
+  private check(): void {
+    const minutes = this._timeoutMinutes();
+    if (!minutes || this._locked() || !this.auth.accessToken()) return;
+    if (Date.now() - this.lastActivity >= minutes * 60_000) this.lock();
+  }
+
+  private storedTimeout(): number {
+    const stored = Number(localStorage.getItem(TIMEOUT_KEY));
+    return localStorage.getItem(TIMEOUT_KEY) !== null && Number.isFinite(stored) ? stored : environment.idleLockMinutes;
+  }
+}
@@ -0,0 +1,28 @@
+import { inject } from '@angular/core';
+import { CanActivateChildFn, Router } from '@angular/router';
+import { map } from 'rxjs';
+import type { ModuleKey, PermissionAction } from '../../shared/models/permission';
+import { PermissionService } from '../../shared/services/permission.service';
+
+export type RoutePermission = {
+  module: ModuleKey | null;
+  action?: PermissionAction;
+};
+
+export const permissionGuard: CanActivateChildFn = (route, state) => {
+  const perm = inject(PermissionService);
+  const router = inject(Router);
+
+  const { module, action } = route.data as Partial<RoutePermission>;
+  if (!module) {
+    return true;
+  }
+
+  return perm.load().pipe(
+    map(() =>
+      perm.can(module, action ?? 'view')
+        ? true
+        : router.createUrlTree(['/no-access'], { queryParams: { from: state.url } })
+    )
+  );
+};
@@ -0,0 +1,111 @@
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
+import { type Observable, catchError, forkJoin, map, of, shareReplay } from 'rxjs';
+
+import { GraphqlService } from '../graphql/graphql.service';
+import {
+  MeDocument,
+  type MeQuery,
+  MyPermissionsDocument,
+  type UserPermissionFieldsFragment
+} from '../graphql/generated/graphql';
+import type { ModuleKey, PermissionAction } from '../../shared/models/permission';
+import { findGrant, isAllowed } from '../../shared/utils/permission.utils';
+import { AuthService } from './auth.service';
+
+export type CurrentUser = NonNullable<MeQuery['me']>;
+
+type UserPermission = UserPermissionFieldsFragment;
+
+@Injectable({ providedIn: 'root' })
+export class SessionStore {
+  private readonly _user = signal<CurrentUser | null>(null);
+  private readonly _permissions = signal<UserPermission[]>([]);
+  private readonly _loaded = signal(false);
+
+  readonly user = this._user.asReadonly();
+  readonly permissions = this._permissions.asReadonly();
+  readonly loaded = this._loaded.asReadonly();
+
+  readonly isAdmin = computed(() => (this._user()?.roles ?? []).includes('ADMIN'));
+
+  private loading$: Observable<void> | null = null;
+  private loadedSession = -1;
+
+  constructor(
+    private readonly gql: GraphqlService,
+    private readonly auth: AuthService
+  ) {
+    effect(() => {
+      this.auth.session();
+      untracked(() => this.reset());
+    });
+  }
+
+  load(): Observable<void> {
+    const session = this.auth.session();
+    if (this.loading$ && this.loadedSession === session) return this.loading$;
+
+    this.loadedSession = session;
+    this._loaded.set(false);
+
+    const loading$ = forkJoin({
+      me: this.gql.request(MeDocument).pipe(
+        map((res) => res.me ?? null),
+        catchError(() => of(null))
+      ),
+      permissions: this.gql.request(MyPermissionsDocument).pipe(
+        map((res) => res.myPermissions ?? []),
+        catchError(() => of([]))
+      )
+    }).pipe(
+      map(({ me, permissions }) => {
+        if (this.loadedSession !== session) return;
+        this._user.set(me);
+        this._permissions.set(permissions);
+        this._loaded.set(true);
+      }),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+
+    this.loading$ = loading$;
+    loading$.subscribe();
+    return loading$;
+  }
+
+  refresh(): Observable<void> {
+    this.loading$ = null;
+    return this.load();
+  }
+
+  permission(module: ModuleKey): UserPermission | undefined {
+    return findGrant(this._permissions(), module);
+  }
+
+  can(module: ModuleKey, action: PermissionAction = 'view'): boolean {
+    return isAllowed(this._permissions(), module, action, this.isAdmin());
+  }
+
+  canView(module: ModuleKey): boolean {
+    return this.can(module, 'view');
+  }
+
+  canCreate(module: ModuleKey): boolean {
+    return this.can(module, 'create');
+  }
+
+  canEdit(module: ModuleKey): boolean {
+    return this.can(module, 'edit');
+  }
+
+  canDelete(module: ModuleKey): boolean {
+    return this.can(module, 'delete');
+  }
+
+  private reset(): void {
+    if (this.loadedSession === this.auth.session()) return;
+    this.loading$ = null;
+    this._user.set(null);
+    this._permissions.set([]);
+    this._loaded.set(false);
+  }
+}
@@ -0,0 +1,77 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { type Observable, from, map, of, shareReplay } from 'rxjs';
+
+import { environment } from '../../../environments/environment';
+import { deleteLocalFile, loadLocalFile, saveLocalFile } from './file.storage';
+
+export type StoredFile = {
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+};
+
+const LOCAL_PREFIX = 'local-file:';
+
+@Injectable({ providedIn: 'root' })
+export class FileStoreService {
+  private readonly http = inject(HttpClient);
+  private readonly resolved = new Map<string, Observable<string | null>>();
+  private readonly objectUrls = new Map<string, string>();
+
+  readonly local = environment.fileStore === 'local';
+
+  upload(file: Blob, name: string): Observable<StoredFile> {
+    const contentType = file.type || 'application/octet-stream';
+
+    if (this.local) {
+      const key = crypto.randomUUID();
+      const stored = { url: `${LOCAL_PREFIX}${key}`, name, contentType, size: file.size };
+      return from(
+        saveLocalFile({ key, name, contentType, size: file.size, createdAt: new Date().toISOString(), blob: file })
+      ).pipe(map(() => stored));
+    }
+
+    const body = new FormData();
+    body.append('file', file, name);
+    return this.http.post<StoredFile>(`${environment.apiBaseUrl}/files`, body);
+  }
+
+  resolve(url: string | null | undefined): Observable<string | null> {
+    if (!url) return of(null);
+    if (!url.startsWith(LOCAL_PREFIX)) return of(url);
+
+    let cached = this.resolved.get(url);
+    if (!cached) {
+      cached = from(loadLocalFile(url.slice(LOCAL_PREFIX.length))).pipe(
+        map((file) => {
+          if (!file) return null;
+          const objectUrl = URL.createObjectURL(file.blob);
+          this.objectUrls.set(url, objectUrl);
+          return objectUrl;
+        }),
+        shareReplay(1)
+      );
+      this.resolved.set(url, cached);
+    }
+    return cached;
+  }
+
+  remove(url: string | null | undefined): Observable<void> {
+    if (!url?.startsWith(LOCAL_PREFIX)) return of(undefined);
+    this.evict(url);
+    return from(deleteLocalFile(url.slice(LOCAL_PREFIX.length)));
+  }
+
+  discard(url: string | null | undefined): void {
+    this.remove(url).subscribe({ error: () => undefined });
+  }
+
+  private evict(url: string): void {
+    const objectUrl = this.objectUrls.get(url);
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+    this.objectUrls.delete(url);
+    this.resolved.delete(url);
+  }
+}
@@ -0,0 +1,53 @@
+export type LocalFile = {
+  key: string;
+  name: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+  blob: Blob;
+};
+
+const DB_NAME = 'cis.files';
+const DB_VERSION = 1;
+const STORE = 'files';
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      db = null;
+      reject(req.error);
+    };
+  });
+  return db;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const conn = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = conn.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function saveLocalFile(file: LocalFile): Promise<void> {
+  await run('readwrite', (store) => store.put(file));
+}
+
+export async function loadLocalFile(key: string): Promise<LocalFile | null> {
+  const file = await run<LocalFile | undefined>('readonly', (store) => store.get(key));
+  return file ?? null;
+}
+
+export async function deleteLocalFile(key: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,105 @@
+import { type ApolloCache, InMemoryCache, type Reference } from '@apollo/client';
+
+const PRICE_FIELDS = ['buyingPrice', 'sellingPrice', 'priceHistory'];
+
+const STOCK_FIELDS = [
+  'inventory',
+  'inventoryValuation',
+  'stockMovements',
+  'movementAuditReport',
+  'expiryAlerts',
+  'lowStockAlerts',
+  'lowStockBatchAlerts',
+  'dailySalesReport',
+  'salesReport',
+  'productPage'
+];
+
+export function createGraphqlCache(): InMemoryCache {
+  return new InMemoryCache({
+    typePolicies: {
+      Product: { keyFields: ['id'] },
+      Batch: { keyFields: ['id'] },
+      SalesOrder: { keyFields: ['id'] },
+      PurchaseOrder: { keyFields: ['id'] },
+      Expense: { keyFields: ['id'] },
+      Role: { keyFields: ['name'] },
+      UserAccess: { keyFields: ['userId'] },
+      DailySalesReport: { keyFields: ['date'] },
+      ExpiryAlert: { keyFields: ['batchId'] },
+      LowStockAlert: { keyFields: ['productId'] },
+      LowStockBatchAlert: { keyFields: ['batchId', 'location'] },
+      InventoryValuation: { merge: true }
+    }
+  });
+}
+
+export function fieldArgs(storeFieldName: string): Record<string, unknown> {
+  const start = storeFieldName.indexOf('(');
+  if (start < 0) return {};
+  try {
+    return JSON.parse(storeFieldName.slice(start + 1, -1)) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+export type CachedEntity = { __typename: string; id: string | number };
+
+export type ListMembership = (args: Record<string, unknown>) => boolean | null;
+
+export function placeInLists(
+  cache: ApolloCache,
+  fieldName: string,
+  entity: CachedEntity,
+  belongsTo: ListMembership = () => true
+): void {
+  const id = String(entity.id);
+  const ref = cache.identify({ __typename: entity.__typename, id });
+  if (!ref) return;
+
+  cache.modify({
+    fields: {
+      [fieldName]: (existing: readonly Reference[] = [], { storeFieldName, readField, toReference, DELETE }) => {
+        const belongs = belongsTo(fieldArgs(storeFieldName));
+        if (belongs === null) return DELETE;
+
+        const present = existing.some((r) => String(readField('id', r)) === id);
+        if (belongs) return present ? existing : [toReference(ref)!, ...existing];
+        return present ? existing.filter((r) => String(readField('id', r)) !== id) : existing;
+      }
+    }
+  });
+}
+
+export function evictEntity(cache: ApolloCache, __typename: string, id: string | number): void {
+  cache.evict({ id: cache.identify({ __typename, id: String(id) }) });
+  cache.gc();
+}
+
+export function evictStockViews(cache: ApolloCache): void {
+  for (const fieldName of STOCK_FIELDS) {
+    cache.evict({ id: 'ROOT_QUERY', fieldName });
+  }
+  cache.gc();
+}
+
+export function evictProductBatches(cache: ApolloCache, productIds: Array<string | number>): void {
+  for (const id of new Set(productIds.map(String))) {
+    cache.evict({ id: cache.identify({ __typename: 'Product', id }), fieldName: 'batches' });
+  }
+}
+
+export function evictProductPages(cache: ApolloCache): void {
+  cache.evict({ id: 'ROOT_QUERY', fieldName: 'productPage' });
+  cache.gc();
+}
+
+export function evictProductPrices(cache: ApolloCache, productIds: Array<string | number>): void {
+  for (const id of new Set(productIds.map(String))) {
+    for (const fieldName of PRICE_FIELDS) {
+      cache.evict({ id: cache.identify({ __typename: 'Product', id }), fieldName });
+    }
+  }
+  evictProductPages(cache);
+}
@@ -0,0 +1,218 @@
+import type { ApolloCache, Reference, WatchQueryFetchPolicy } from '@apollo/client';
+import type { TypedDocumentNode } from '@graphql-typed-document-node/core';
+
+import {
+  evictEntity,
+  evictProductBatches,
+  evictProductPages,
+  evictProductPrices,
+  evictStockViews,
+  type ListMembership,
+  placeInLists
+} from './graphql.cache';
+import {
+  AddProductAttachmentDocument,
+  BulkUpdatePricesDocument,
+  CancelPriceChangeDocument,
+  CreateBatchDocument,
+  CreateExpenseDocument,
+  CreateMySaleDocument,
+  CreateProductDocument,
+  CreateSaleDocument,
+  DeleteExpenseDocument,
+  DeleteMySaleDocument,
+  DeletePurchaseDocument,
+  DeleteSaleDocument,
+  type ExpenseFilter,
+  ImportProductsDocument,
+  MergeProductsDocument,
+  type ProductFilter,
+  type PurchaseOrderFieldsFragment,
+  PurchaseOrderFieldsFragmentDoc,
+  ReceivePurchaseDocument,
+  RemoveProductAttachmentDocument,
+  SchedulePriceChangeDocument,
+  SetBatchStatusDocument,
+  SetProductStatusDocument,
+  SetProductUnitsDocument,
+  UpdateBatchDocument,
+  UpdateBatchNumberDocument,
+  UpdateExpenseDocument,
+  UpdateProductDocument,
+  UpdatePurchaseDocument,
+  UpdateSaleDocument
+} from './generated/graphql';
+
+export type OperationPolicy = {
+  fetchPolicy?: WatchQueryFetchPolicy;
+  update?: (cache: ApolloCache, data: unknown, variables: unknown) => void;
+};
+
+function onMutation<TResult, TVariables>(
+  _document: TypedDocumentNode<TResult, TVariables>,
+  update: (cache: ApolloCache, data: TResult, variables: TVariables) => void
+): OperationPolicy {
+  return { update: update as OperationPolicy['update'] };
+}
+
+const unfilteredProducts: ListMembership = (args) => {
+  const filter = args['filter'] as ProductFilter | null | undefined;
+  if (!filter) return true;
+  const { query, category, brand, active, hasStock } = filter;
+  return query?.trim() || category || brand || active != null || hasStock != null ? null : true;
+};
+
+function expenseDate(date: string): ListMembership {
+  return (args) => {
+    const filter = args['filter'] as ExpenseFilter | null | undefined;
+    const from = filter?.from ?? '';
+    const to = filter?.to ?? '';
+    return (!from || date >= from) && (!to || date <= to);
+  };
+}
+
+export const operationPolicies: Record<string, OperationPolicy> = {
+  ProductPage: { fetchPolicy: 'cache-and-network' },
+  ProductDetail: { fetchPolicy: 'cache-and-network' },
+  ProductOptions: { fetchPolicy: 'cache-and-network' },
+  SalesOrders: { fetchPolicy: 'cache-and-network' },
+  MySales: { fetchPolicy: 'cache-and-network' },
+  PurchaseOrders: { fetchPolicy: 'cache-and-network' },
+  Expenses: { fetchPolicy: 'cache-and-network' },
+
+  CreateProduct: onMutation(CreateProductDocument, (cache, data) => {
+    placeInLists(cache, 'products', { __typename: 'Product', id: data.createProduct.id }, unfilteredProducts);
+    evictProductPages(cache);
+  }),
+  UpdateProduct: onMutation(UpdateProductDocument, (cache, data) => {
+    cache.evict({ id: cache.identify({ __typename: 'Product', id: data.updateProduct.id }), fieldName: 'priceHistory' });
+    evictProductPages(cache);
+  }),
+  SetProductStatus: onMutation(SetProductStatusDocument, (cache) => {
+    evictProductPages(cache);
+  }),
+  SetProductUnits: onMutation(SetProductUnitsDocument, (cache) => {
+    evictStockViews(cache);
+  }),
+  MergeProducts: onMutation(MergeProductsDocument, (cache, data) => {
+    const { survivor, mergedIds } = data.mergeProducts;
+    for (const id of mergedIds) evictEntity(cache, 'Product', id);
+    evictProductBatches(cache, [survivor.id]);
+    for (const fieldName of ['products', 'salesOrders', 'purchaseOrders', 'mySales']) {
+      cache.evict({ id: 'ROOT_QUERY', fieldName });
+    }
+    evictStockViews(cache);
+  }),
+  SchedulePriceChange: onMutation(SchedulePriceChangeDocument, (cache, data) => {
+    evictProductPrices(cache, [data.schedulePriceChange.productId]);
+  }),
+  CancelPriceChange: onMutation(CancelPriceChangeDocument, (cache, data) => {
+    evictProductPrices(cache, [data.cancelPriceChange.productId]);
+  }),
+  BulkUpdatePrices: onMutation(BulkUpdatePricesDocument, (cache, data) => {
+    evictProductPrices(cache, data.bulkUpdatePrices.map((c) => c.productId));
+  }),
+  CreateBatch: onMutation(CreateBatchDocument, (cache, data) => {
+    const batch = data.createBatch;
+    cache.modify({
+      id: cache.identify({ __typename: 'Product', id: batch.productId }),
+      fields: {
+        batches: (existing: readonly Reference[] = [], { toReference }) => [
+          ...existing,
+          toReference({ __typename: 'Batch', id: batch.id })!
+        ]
+      }
+    });
+    evictStockViews(cache);
+  }),
+  AddProductAttachment: onMutation(AddProductAttachmentDocument, (cache, data) => {
+    const attachment = data.addProductAttachment;
+    cache.modify({
+      id: cache.identify({ __typename: 'Product', id: attachment.productId }),
+      fields: {
+        attachments: (existing: readonly Reference[] = [], { toReference }) => [
+          ...existing,
+          toReference({ __typename: 'ProductAttachment', id: attachment.id })!
+        ]
+      }
+    });
+  }),
+  RemoveProductAttachment: onMutation(RemoveProductAttachmentDocument, (cache, data, variables) => {
+    if (!data.removeProductAttachment) return;
+    evictEntity(cache, 'ProductAttachment', variables.input.id);
+  }),
+  ImportProducts: onMutation(ImportProductsDocument, (cache, data) => {
+    if (!data.importProducts.some((r) => r.product)) return;
+    cache.evict({ id: 'ROOT_QUERY', fieldName: 'products' });
+    evictStockViews(cache);
+  }),
+  UpdateBatchNumber: onMutation(UpdateBatchNumberDocument, (cache) => {
+    evictStockViews(cache);
+  }),
+  UpdateBatch: onMutation(UpdateBatchDocument, (cache) => {
+    evictStockViews(cache);
+  }),
+  SetBatchStatus: onMutation(SetBatchStatusDocument, (cache) => {
+    evictStockViews(cache);
+  }),
+
+  CreateSale: onMutation(CreateSaleDocument, (cache, data) => {
+    placeInLists(cache, 'salesOrders', { __typename: 'SalesOrder', id: data.createSale.id });
+    evictStockViews(cache);
+  }),
+  UpdateSale: onMutation(UpdateSaleDocument, (cache) => {
+    evictStockViews(cache);
+  }),
+  DeleteSale: onMutation(DeleteSaleDocument, (cache, data, variables) => {
+    if (!data.deleteSale) return;
+    evictEntity(cache, 'SalesOrder', variables.input.id);
+    evictStockViews(cache);
+  }),
+
+  CreateMySale: onMutation(CreateMySaleDocument, (cache, data) => {
+    placeInLists(cache, 'mySales', { __typename: 'MySale', id: data.createMySale.id });
+  }),
+  DeleteMySale: onMutation(DeleteMySaleDocument, (cache, data, variables) => {
+    if (!data.deleteMySale) return;
+    evictEntity(cache, 'MySale', variables.input.id);
+  }),
+
+  ReceivePurchase: onMutation(ReceivePurchaseDocument, (cache, data) => {
+    const order = data.receivePurchase;
+    placeInLists(cache, 'purchaseOrders', { __typename: 'PurchaseOrder', id: order.id });
+    evictProductBatches(cache, order.lines.map((l) => l.productId));
+    evictStockViews(cache);
+  }),
+  UpdatePurchase: onMutation(UpdatePurchaseDocument, (cache, data, variables) => {
+    evictProductBatches(cache, [
+      ...data.updatePurchase.lines.map((l) => l.productId),
+      ...variables.input.lines.map((l) => l.productId)
+    ]);
+    evictStockViews(cache);
+  }),
+  DeletePurchase: onMutation(DeletePurchaseDocument, (cache, data, variables) => {
+    if (!data.deletePurchase) return;
+    const order = cache.readFragment<PurchaseOrderFieldsFragment>({
+      id: cache.identify({ __typename: 'PurchaseOrder', id: String(variables.input.id) }),
+      fragment: PurchaseOrderFieldsFragmentDoc,
+      fragmentName: 'PurchaseOrderFields',
+      variables: { withCosts: false }
+    });
+    evictProductBatches(cache, order?.lines.map((l) => l.productId) ?? []);
+    evictEntity(cache, 'PurchaseOrder', variables.input.id);
+    evictStockViews(cache);
+  }),
+
+  CreateExpense: onMutation(CreateExpenseDocument, (cache, data) => {
+    const expense = data.createExpense;
+    placeInLists(cache, 'expenses', { __typename: 'Expense', id: expense.id }, expenseDate(expense.date));
+  }),
+  UpdateExpense: onMutation(UpdateExpenseDocument, (cache, data) => {
+    const expense = data.updateExpense;
+    placeInLists(cache, 'expenses', { __typename: 'Expense', id: expense.id }, expenseDate(expense.date));
+  }),
+  DeleteExpense: onMutation(DeleteExpenseDocument, (cache, data, variables) => {
+    if (!data.deleteExpense) return;
+    evictEntity(cache, 'Expense', variables.input.id);
+  })
+};
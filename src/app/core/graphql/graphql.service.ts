@@ -1,36 +1,103 @@
-import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { map } from 'rxjs/operators';
+import type { OperationVariables, WatchQueryFetchPolicy } from '@apollo/client';
+import type { TypedDocumentNode } from '@graphql-typed-document-node/core';
+import { Apollo } from 'apollo-angular';
+import { type DocumentNode, getOperationAST, type OperationTypeNode } from 'graphql';
+import type { Observable } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
 
-import { environment } from '../../../environments/environment';
+import { type OperationPolicy, operationPolicies } from './graphql.policies';
 
-export type GraphqlResponse<T> = {
-  data?: T;
-  errors?: Array<{ message: string }>;
+export type GraphqlRequestOptions = {
+  fetchPolicy?: WatchQueryFetchPolicy;
 };
 
 @Injectable({ providedIn: 'root' })
 export class GraphqlService {
-  private readonly endpoint = environment.graphqlUrl;
+  private readonly operations = new WeakMap<object, { type: OperationTypeNode | null; policy: OperationPolicy }>();
 
-  constructor(private readonly http: HttpClient) {}
+  constructor(private readonly apollo: Apollo) {}
 
-  request<T>(query: string, variables?: Record<string, unknown>) {
-    return this.http
-      .post<GraphqlResponse<T>>(this.endpoint, {
-        query,
-        variables: variables ?? {}
+  request<TResult, TVariables>(
+    document: TypedDocumentNode<TResult, TVariables>,
+    variables?: TVariables,
+    options: GraphqlRequestOptions = {}
+  ): Observable<TResult> {
+    const { type, policy } = this.describe(document);
+    const vars = (variables ?? {}) as OperationVariables;
+
+    if (type === 'mutation') {
+      const update = policy.update;
+      return this.apollo
+        .mutate<TResult, OperationVariables>({
+          mutation: document,
+          variables: vars,
+          update: update
+            ? (cache, { data }) => {
+                if (data) update(cache, data, vars);
+              }
+            : undefined
+        })
+        .pipe(map((res) => this.unwrap(res.data)));
+    }
+
+    const fetchPolicy = options.fetchPolicy ?? policy.fetchPolicy ?? 'network-only';
+    return this.apollo
+      .query<TResult, OperationVariables>({
+        query: document,
+        variables: vars,
+        fetchPolicy: fetchPolicy === 'cache-first' || fetchPolicy === 'cache-only' ? fetchPolicy : 'network-only'
+      })
+      .pipe(map((res) => this.unwrap(res.data)));
+  }
+
+  watch<TResult, TVariables>(
+    document: TypedDocumentNode<TResult, TVariables>,
+    variables?: TVariables,
+    options: GraphqlRequestOptions = {}
+  ): Observable<TResult> {
+    const { policy } = this.describe(document);
+
+    return this.apollo
+      .watchQuery<TResult, OperationVariables>({
+        query: document,
+        variables: (variables ?? {}) as OperationVariables,
+        fetchPolicy: options.fetchPolicy ?? policy.fetchPolicy ?? 'cache-and-network'
       })
-      .pipe(
+      .valueChanges.pipe(
         map((res) => {
-          if (res.errors?.length) {
-            throw new Error(res.errors.map((e) => e.message).join('\n'));
-          }
-          if (!res.data) {
-            throw new Error('No data returned from GraphQL');
-          }
-          return res.data;
-        })
+          if (res.error) throw res.error;
+          return res;
+        }),
+        filter((res) => res.dataState === 'complete'),
+        map((res) => res.data as TResult)
       );
   }
+
+  resetStore(): Promise<void> {
+    return this.apollo.client.resetStore().then(
+      () => undefined,
+      () => undefined
+    );
+  }
+
+  private unwrap<TResult>(data: TResult | null | undefined): TResult {
+    if (!data) {
+      throw new Error('No data returned from GraphQL');
+    }
+    return data;
+  }
+
+  private describe(document: DocumentNode): { type: OperationTypeNode | null; policy: OperationPolicy } {
+    let entry = this.operations.get(document);
+    if (!entry) {
+      const operation = getOperationAST(document);
+      entry = {
+        type: operation?.operation ?? null,
+        policy: operationPolicies[operation?.name?.value ?? ''] ?? {}
+      };
+      this.operations.set(document, entry);
+    }
+    return entry;
+  }
 }
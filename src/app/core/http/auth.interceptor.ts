@@ -1,6 +1,15 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn, type HttpRequest, HttpResponse } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { AuthService } from '../auth/auth.service';
+import { catchError, mergeMap, of, switchMap, throwError } from 'rxjs';
+import { AuthService, isUnauthenticated } from '../auth/auth.service';
+
+function withToken<T>(req: HttpRequest<T>, token: string): HttpRequest<T> {
+  return req.clone({
+    setHeaders: {
+      Authorization: `Bearer ${token}`
+    }
+  });
+}
 
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
   const auth = inject(AuthService);
@@ -10,11 +19,24 @@ export const authInterceptor: HttpInterceptorFn = (req, next) => {
     return next(req);
   }
 
-  return next(
-    req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`
-      }
+  const sessionExpired = () => {
+    auth.expire();
+    return throwError(() => new HttpErrorResponse({ status: 401, statusText: 'Session expired', url: req.url }));
+  };
+
+  const retryOnce = () =>
+    auth.refresh().pipe(switchMap((fresh) => (fresh ? next(withToken(req, fresh)) : sessionExpired())));
+
+  const token$ = auth.isExpired() ? auth.refresh() : of(token);
+
+  return token$.pipe(
+    switchMap((current) => {
+      if (!current) return sessionExpired();
+
+      return next(withToken(req, current)).pipe(
+        mergeMap((event) => (event instanceof HttpResponse && isUnauthenticated(event.body) ? retryOnce() : of(event))),
+        catchError((e: unknown) => (e instanceof HttpErrorResponse && e.status === 401 ? retryOnce() : throwError(() => e)))
+      );
     })
   );
 };
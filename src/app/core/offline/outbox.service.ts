@@ -0,0 +1,197 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
+import { CombinedGraphQLErrors } from '@apollo/client';
+import { type Observable, catchError, from, map, throwError } from 'rxjs';
+
+import { AuthService } from '../auth/auth.service';
+import { GraphqlService } from '../graphql/graphql.service';
+import {
+  CreateMySaleDocument,
+  type CreateMySaleInput,
+  CreateSaleDocument,
+  type CreateSaleInput
+} from '../graphql/generated/graphql';
+import {
+  deleteOutboxEntry,
+  loadOutbox,
+  type OutboxCommand,
+  type OutboxEntry,
+  saveOutboxEntry
+} from './outbox.storage';
+
+export type OutboxResult = {
+  queued: boolean;
+};
+
+type OutboxPatch = Partial<Pick<OutboxEntry, 'status' | 'attempts' | 'error'>>;
+
+const RETRY_INTERVAL_MS = 30_000;
+
+const UNREACHABLE_STATUSES = [0, 502, 503, 504];
+
+@Injectable({ providedIn: 'root' })
+export class OutboxService {
+  private readonly _entries = signal<OutboxEntry[]>([]);
+  private readonly _online = signal(navigator.onLine);
+  private readonly _syncing = signal(false);
+
+  readonly entries = this._entries.asReadonly();
+  readonly online = this._online.asReadonly();
+  readonly syncing = this._syncing.asReadonly();
+
+  readonly pendingCount = computed(
+    () => this._entries().filter((e) => e.status !== 'conflict' && this.isMine(e)).length
+  );
+  readonly conflictCount = computed(
+    () => this._entries().filter((e) => e.status === 'conflict' && this.isMine(e)).length
+  );
+  readonly otherUsersCount = computed(() => this._entries().filter((e) => !this.isMine(e)).length);
+
+  constructor(
+    private readonly gql: GraphqlService,
+    private readonly auth: AuthService
+  ) {
+    window.addEventListener('online', () => {
+      this._online.set(true);
+      this.replay();
+    });
+    window.addEventListener('offline', () => this._online.set(false));
+    window.setInterval(() => this.replay(), RETRY_INTERVAL_MS);
+
+    effect(() => {
+      this.auth.userId();
+      untracked(() => this.replay());
+    });
+
+    loadOutbox().then(
+      (entries) => {
+        this._entries.set(entries.map((e) => (e.status === 'syncing' ? { ...e, status: 'pending' } : e)));
+        this.replay();
+      },
+      () => this._entries.set([])
+    );
+  }
+
+  createSale(input: CreateSaleInput): Observable<OutboxResult> {
+    return this.send({ operation: 'createSale', input });
+  }
+
+  createMySale(input: CreateMySaleInput): Observable<OutboxResult> {
+    return this.send({ operation: 'createMySale', input });
+  }
+
+  retry(id: string): void {
+    this.patch(id, { status: 'pending', error: null });
+    this.replay();
+  }
+
+  resolve(id: string, command: OutboxCommand): void {
+    const current = this._entries().find((e) => e.id === id);
+    if (!current) return;
+
+    this.store({ ...current, ...command, status: 'pending', error: null });
+    this.replay();
+  }
+
+  discard(id: string): void {
+    this._entries.update((list) => list.filter((e) => e.id !== id));
+    deleteOutboxEntry(id).catch(() => undefined);
+    this.replay();
+  }
+
+  isMine(entry: OutboxEntry): boolean {
+    return !entry.userId || entry.userId === this.auth.userId();
+  }
+
+  replay(): void {
+    if (this._syncing() || !this._online() || !this.auth.isAuthenticated()) return;
+    if (!this._entries().some((e) => e.status === 'pending' && this.isMine(e))) return;
+
+    this._syncing.set(true);
+    this.replayNext();
+  }
+
+  private replayNext(): void {
+    const entry = this._entries().find((e) => this.isMine(e));
+    if (entry?.status !== 'pending') {
+      this._syncing.set(false);
+      return;
+    }
+
+    this.patch(entry.id, { status: 'syncing', attempts: entry.attempts + 1 });
+
+    this.execute(entry, entry.id).subscribe({
+      next: () => {
+        this.discard(entry.id);
+        this.replayNext();
+      },
+      error: (e: unknown) => {
+        if (CombinedGraphQLErrors.is(e)) {
+          this.patch(entry.id, { status: 'conflict', error: e.message });
+        } else {
+          this.patch(entry.id, { status: 'pending', error: e instanceof Error ? e.message : null });
+        }
+        this._syncing.set(false);
+      }
+    });
+  }
+
+  private send(command: OutboxCommand): Observable<OutboxResult> {
+    const queueAhead = this._entries().some((e) => this.isMine(e));
+    const id = crypto.randomUUID();
+    if (!this._online() || queueAhead) return this.enqueue(command, id);
+
+    return this.execute(command, id).pipe(
+      map(() => ({ queued: false })),
+      catchError((e: unknown) => (this.isUnreachable(e) ? this.enqueue(command, id) : throwError(() => e)))
+    );
+  }
+
+  private execute(command: OutboxCommand, clientMutationId: string): Observable<unknown> {
+    switch (command.operation) {
+      case 'createSale':
+        return this.gql.request(CreateSaleDocument, { input: { ...command.input, clientMutationId } });
+      case 'createMySale':
+        return this.gql.request(CreateMySaleDocument, { input: { ...command.input, clientMutationId } });
+    }
+  }
+
+  private enqueue(command: OutboxCommand, id: string): Observable<OutboxResult> {
+    const seq = Math.max(Date.now(), ...this._entries().map((e) => e.seq + 1));
+    const entry: OutboxEntry = {
+      ...command,
+      id,
+      seq,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      error: null,
+      userId: this.auth.userId()
+    };
+
+    return from(saveOutboxEntry(entry)).pipe(
+      map(() => {
+        this._entries.update((list) => [...list, entry]);
+        this.replay();
+        return { queued: true };
+      })
+    );
+  }
+
+  private patch(id: string, changes: OutboxPatch): void {
+    const current = this._entries().find((e) => e.id === id);
+    if (!current) return;
+    this.store({ ...current, ...changes });
+  }
+
+  private store(entry: OutboxEntry): void {
+    this._entries.update((list) => list.map((e) => (e.id === entry.id ? entry : e)));
+    saveOutboxEntry(entry).catch(() => undefined);
+  }
+
+  private isUnreachable(e: unknown): boolean {
+    if (!navigator.onLine) return true;
+    const err = e instanceof HttpErrorResponse ? e : e instanceof Error ? e.cause : null;
+    return err instanceof HttpErrorResponse && UNREACHABLE_STATUSES.includes(err.status);
+  }
+}
@@ -0,0 +1,64 @@
+import type { CreateMySaleInput, CreateSaleInput } from '../graphql/generated/graphql';
+
+export type OutboxStatus = 'pending' | 'syncing' | 'conflict';
+
+type OutboxEntryBase = {
+  id: string;
+  seq: number;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string | null;
+  userId?: string | null;
+};
+
+export type OutboxCommand =
+  | { operation: 'createSale'; input: CreateSaleInput }
+  | { operation: 'createMySale'; input: CreateMySaleInput };
+
+export type OutboxEntry = OutboxEntryBase & OutboxCommand;
+
+const DB_NAME = 'cis.outbox';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      db = null;
+      reject(req.error);
+    };
+  });
+  return db;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const conn = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = conn.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  const all = await run<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return (Array.isArray(all) ? all : []).sort((a, b) => a.seq - b.seq);
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await run('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  await run('readwrite', (store) => store.delete(id));
+}
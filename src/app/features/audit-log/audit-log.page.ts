@@ -0,0 +1,203 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  AuditLogDocument,
+  type AuditLogEntryFieldsFragment,
+  type AuditLogFilter,
+  type UserOptionsQuery,
+  UserOptionsDocument
+} from '../../core/graphql/generated/graphql';
+import { MODULES } from '../../shared/models/permission';
+import { downloadCsv, toCsv } from '../../shared/utils/csv.utils';
+import { fetchAllPages } from '../../shared/utils/paging.utils';
+import { addDays, toIsoDate } from '../../shared/utils/date.utils';
+import { type FieldChange, formatSnapshotValue, snapshotDiff } from '../../shared/utils/diff.utils';
+
+type AuditEntry = AuditLogEntryFieldsFragment;
+
+type UserOption = UserOptionsQuery['users'][number];
+
+type EntityLink = {
+  path: string;
+  queryParams: Record<string, string>;
+};
+
+const EXPORT_PAGE_SIZE = 1_000;
+
+@Component({
+  selector: 'cis-audit-log-page',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  templateUrl: './audit-log.page.html',
+  styleUrl: './audit-log.page.scss'
+})
+export class AuditLogPage {
+  loading = signal(false);
+  exporting = signal(false);
+  error = signal<string | null>(null);
+
+  items = signal<AuditEntry[]>([]);
+  total = signal(0);
+  users = signal<UserOption[]>([]);
+  expandedId = signal<string | null>(null);
+
+  pageSize = signal(50);
+  pageIndex = signal(0);
+  totalPages = computed(() => Math.max(1, Math.ceil(this.total() / this.pageSize())));
+
+  readonly modules = MODULES;
+  readonly formatValue = formatSnapshotValue;
+
+  private readonly fb = inject(FormBuilder);
+
+  filterForm = this.fb.group({
+    actorId: [''],
+    module: [''],
+    from: [addDays(toIsoDate(new Date()), -30)],
+    to: [toIsoDate(new Date())]
+  });
+
+  constructor(private readonly gql: GraphqlService) {
+    this.loadUsers();
+    this.load();
+  }
+
+  search(): void {
+    this.pageIndex.set(0);
+    this.load();
+  }
+
+  load(): void {
+    this.loading.set(true);
+    this.error.set(null);
+    this.expandedId.set(null);
+
+    this.gql
+      .request(AuditLogDocument, { filter: this.filter(this.pageIndex(), this.pageSize()) })
+      .subscribe({
+        next: (res) => {
+          this.items.set(res.auditLog.items);
+          this.total.set(res.auditLog.total);
+          this.loading.set(false);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load audit log');
+          this.loading.set(false);
+        }
+      });
+  }
+
+  setPageSize(size: number | string): void {
+    const next = Number(size);
+    if (!Number.isFinite(next) || next <= 0) return;
+    this.pageSize.set(next);
+    this.pageIndex.set(0);
+    this.load();
+  }
+
+  prevPage(): void {
+    if (this.pageIndex() <= 0) return;
+    this.pageIndex.update((i) => i - 1);
+    this.load();
+  }
+
+  nextPage(): void {
+    if (this.pageIndex() >= this.totalPages() - 1) return;
+    this.pageIndex.update((i) => i + 1);
+    this.load();
+  }
+
+  toggle(entry: AuditEntry): void {
+    this.expandedId.set(this.expandedId() === entry.id ? null : entry.id);
+  }
+
+  changes(entry: AuditEntry): FieldChange[] {
+    return snapshotDiff(entry.before, entry.after);
+  }
+
+  moduleLabel(module: string): string {
+    return this.modules.find((m) => m.key === module)?.label ?? module;
+  }
+
+  entityLink(entry: AuditEntry): EntityLink | null {
+    const id = entry.entityId ? String(entry.entityId) : '';
+    if (!id) return null;
+
+    switch (entry.entityType.toUpperCase()) {
+      case 'SALE':
+        return { path: '/sales', queryParams: { id } };
+      case 'PURCHASE':
+        return { path: '/purchasing', queryParams: { id } };
+      case 'PRODUCT':
+        return { path: `/products/${id}`, queryParams: {} };
+      case 'EXPENSE':
+        return { path: '/expenses', queryParams: {} };
+      case 'USER':
+        return { path: '/users', queryParams: {} };
+      default:
+        return null;
+    }
+  }
+
+  exportCsv(): void {
+    this.exporting.set(true);
+    this.error.set(null);
+
+    fetchAllPages(
+      (page) =>
+        this.gql
+          .request(AuditLogDocument, { filter: this.filter(page, EXPORT_PAGE_SIZE) })
+          .pipe(map((res) => res.auditLog)),
+      EXPORT_PAGE_SIZE
+    ).subscribe({
+      next: (items) => {
+        const csv = toCsv(items, [
+          { header: 'Timestamp', value: (e) => e.createdAt },
+          { header: 'User', value: (e) => e.actorName ?? '' },
+          { header: 'Action', value: (e) => e.action },
+          { header: 'Module', value: (e) => this.moduleLabel(e.module) },
+          { header: 'Entity', value: (e) => e.entityType },
+          { header: 'Entity ID', value: (e) => e.entityId ?? '' },
+          { header: 'Entity Label', value: (e) => e.entityLabel ?? '' },
+          {
+            header: 'Changes',
+            value: (e) =>
+              this.changes(e)
+                .map((c) => `${c.field}: ${formatSnapshotValue(c.before)} -> ${formatSnapshotValue(c.after)}`)
+                .join('; ')
+          }
+        ]);
+        const { from, to } = this.filterForm.getRawValue();
+        downloadCsv(`audit-log_${from || 'start'}_${to || 'today'}`, csv);
+        this.exporting.set(false);
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to export audit log');
+        this.exporting.set(false);
+      }
+    });
+  }
+
+  private filter(page: number, size: number): AuditLogFilter {
+    const { actorId, module, from, to } = this.filterForm.getRawValue();
+    return {
+      actorId: actorId || null,
+      module: module || null,
+      from: from || null,
+      to: to || null,
+      page,
+      size
+    };
+  }
+
+  private loadUsers(): void {
+    this.gql.request(UserOptionsDocument).subscribe({
+      next: (res) => this.users.set(res.users ?? []),
+      error: () => this.users.set([])
+    });
+  }
+}
@@ -2,40 +2,27 @@ import { CommonModule } from '@angular/common';
 import { Component, inject, signal } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  CategoriesDocument,
+  type CategoriesQuery,
+  CreateCategoryDocument,
+  DeleteCategoryDocument,
+  UpdateCategoryDocument
+} from '../../core/graphql/generated/graphql';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
 
-type Category = {
-  id: string;
-  name: string;
-  description?: string | null;
-  active: boolean;
-};
-
-type CategoriesQueryResult = {
-  categories: Category[];
-};
-
-type CreateCategoryMutationResult = {
-  createCategory: Category;
-};
-
-type UpdateCategoryMutationResult = {
-  updateCategory: Category;
-};
-
-type DeleteCategoryMutationResult = {
-  deleteCategory: boolean;
-};
+type Category = CategoriesQuery['categories'][number];
 
 @Component({
   selector: 'cis-categories-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, CanDirective],
   templateUrl: './categories.page.html',
   styleUrl: './categories.page.scss'
 })
 export class CategoriesPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
 
   loading = signal(false);
   error = signal<string | null>(null);
@@ -77,9 +64,7 @@ export class CategoriesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const query = `query Categories { categories { id name description active } }`;
-
-    this.gql.request<CategoriesQueryResult>(query).subscribe({
+    this.gql.request(CategoriesDocument).subscribe({
       next: (res) => {
         this.categories.set(res.categories);
         this.loading.set(false);
@@ -97,10 +82,10 @@ export class CategoriesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const input = this.createForm.getRawValue();
-    const mutation = `mutation CreateCategory($input: CreateCategoryInput!) { createCategory(input: $input) { id name description active } }`;
+    const raw = this.createForm.getRawValue();
+    const input = { name: raw.name ?? '', description: raw.description };
 
-    this.gql.request<CreateCategoryMutationResult>(mutation, { input }).subscribe({
+    this.gql.request(CreateCategoryDocument, { input }).subscribe({
       next: () => {
         this.createForm.reset({ name: '', description: '' });
         this.createOpen.set(false);
@@ -142,9 +127,7 @@ export class CategoriesPage {
       active: raw.active
     };
 
-    const mutation = `mutation UpdateCategory($input: UpdateCategoryInput!) { updateCategory(input: $input) { id name description active } }`;
-
-    this.gql.request<UpdateCategoryMutationResult>(mutation, { input }).subscribe({
+    this.gql.request(UpdateCategoryDocument, { input }).subscribe({
       next: () => {
         this.editingId.set(null);
         this.load();
@@ -163,9 +146,7 @@ export class CategoriesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeleteCategory($input: DeleteCategoryInput!) { deleteCategory(input: $input) }`;
-
-    this.gql.request<DeleteCategoryMutationResult>(mutation, { input: { id: c.id } }).subscribe({
+    this.gql.request(DeleteCategoryDocument, { input: { id: c.id } }).subscribe({
       next: () => {
         if (this.editingId() === c.id) {
           this.editingId.set(null);
@@ -1,107 +1,31 @@
 import { CommonModule } from '@angular/common';
 import { Component, computed, inject, signal } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { SessionStore } from '../../core/auth/session.store';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  AlertCountsDocument,
+  DailySalesReportDocument,
+  DashboardCountsDocument,
+  ExpensesDocument,
+  InventoryValuationDocument,
+  StockMovementsDocument,
+  type StockMovementFieldsFragment
+} from '../../core/graphql/generated/graphql';
 import { BaseChartDirective } from 'ng2-charts';
+import type { ModuleKey } from '../../shared/models/permission';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { MaskedPipe } from '../../shared/pipes/masked.pipe';
+import { SalesReportService } from '../../shared/services/sales-report.service';
 import { forkJoin } from 'rxjs';
 import type { ChartConfiguration, ChartData } from 'chart.js';
 
-type InventoryValuationQueryResult = {
-  inventoryValuation: {
-    totalStockValue: number;
-  };
-};
-
-type AlertsQueryResult = {
-  expiryAlerts: Array<{ productId: string }>;
-  lowStockAlerts: Array<{ productId: string }>;
-};
-
-type ProductsCountQueryResult = {
-  products: Array<{ id: string }>;
-};
-
-type CategoriesCountQueryResult = {
-  categories: Array<{ id: string }>;
-};
-
-type StockMovement = {
-  id: string;
-  type: string;
-  quantity: number;
-  createdAt: string;
-  sku: string;
-  productName: string;
-};
-
-type RecentMovementsQueryResult = {
-  stockMovements: StockMovement[];
-};
-
-type MyPermission = {
-  module: string;
-  canView: boolean;
-  canCreate: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-};
-
-type MeQueryResult = {
-  me: { id: string; name: string; email: string; roles: string[] } | null;
-};
-
-type MyPermissionsQueryResult = {
-  myPermissions: MyPermission[];
-};
-
-type DailySalesReportItem = {
-  productId: string;
-  sku: string;
-  productName: string;
-  quantitySold: number;
-  salesAmount: number;
-  costAmount: number;
-  profitAmount: number;
-};
-
-type DailySalesReport = {
-  date: string;
-  totalSalesAmount: number;
-  totalCostAmount: number;
-  totalProfitAmount: number;
-  items: DailySalesReportItem[];
-};
-
-type DailySalesReportQueryResult = {
-  dailySalesReport: DailySalesReport;
-};
-
-type ExpenseCategory = {
-  id: string;
-  name: string;
-  active: boolean;
-};
-
-type Expense = {
-  id: string;
-  date: string;
-  description?: string | null;
-  amount: number;
-  paymentMethod: string;
-  createdAt: string;
-  createdBy?: string | null;
-  category: ExpenseCategory;
-};
-
-type ExpensesQueryResult = {
-  expenses: Expense[];
-};
+type StockMovement = StockMovementFieldsFragment;
 
 @Component({
   selector: 'cis-dashboard-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, BaseChartDirective, MoneyPipe],
+  imports: [CommonModule, ReactiveFormsModule, BaseChartDirective, MoneyPipe, MaskedPipe],
   templateUrl: './dashboard.page.html',
   styleUrl: './dashboard.page.scss'
 })
@@ -111,6 +35,8 @@ export class DashboardPage {
 
   private readonly fb = inject(FormBuilder);
   private readonly gql = inject(GraphqlService);
+  private readonly reports = inject(SalesReportService);
+  private readonly session = inject(SessionStore);
 
   totalStockValue = signal<number | null>(null);
   productsCount = signal<number>(0);
@@ -120,16 +46,7 @@ export class DashboardPage {
 
   recentMovements = signal<StockMovement[]>([]);
 
-  me = signal<MeQueryResult['me']>(null);
-  myPermissions = signal<MyPermission[]>([]);
-  isAdmin = computed(() => (this.me()?.roles ?? []).includes('ADMIN'));
-
-  canView = (module: string): boolean => {
-    if (this.isAdmin()) return true;
-    const mod = String(module).toUpperCase();
-    const p = this.myPermissions().find((x) => String(x.module).toUpperCase() === mod);
-    return Boolean(p?.canView);
-  };
+  canView = (module: ModuleKey): boolean => this.session.canView(module);
 
   profitLoading = signal(false);
   profitError = signal<string | null>(null);
@@ -229,20 +146,16 @@ export class DashboardPage {
     this.loading.set(true);
     this.error.set(null);
 
-    this.loadMe();
-    this.loadMyPermissions();
+    this.session.load().subscribe(() => {
+      if (this.canView('REPORTS')) this.loadProfit();
 
-    const qVal = `query { inventoryValuation { totalStockValue } }`;
-    this.gql.request<InventoryValuationQueryResult>(qVal).subscribe({
-      next: (res) => this.totalStockValue.set(res.inventoryValuation.totalStockValue),
-      error: () => {}
+      this.gql.request(InventoryValuationDocument, { withCosts: this.canView('COSTS_MARGINS') }).subscribe({
+        next: (res) => this.totalStockValue.set(res.inventoryValuation?.totalStockValue ?? null),
+        error: () => {}
+      });
     });
 
-    const qCounts = `query DashboardCounts {
-      products { id }
-      categories { id }
-    }`;
-    this.gql.request<ProductsCountQueryResult & CategoriesCountQueryResult>(qCounts).subscribe({
+    this.gql.request(DashboardCountsDocument).subscribe({
       next: (res) => {
         this.productsCount.set(res.products.length);
         this.categoriesCount.set(res.categories.length);
@@ -250,11 +163,7 @@ export class DashboardPage {
       error: () => {}
     });
 
-    const qAlerts = `query DashboardAlerts($days: Int!, $threshold: Int!) {
-      expiryAlerts(days: $days) { productId }
-      lowStockAlerts(threshold: $threshold) { productId }
-    }`;
-    this.gql.request<AlertsQueryResult>(qAlerts, { days: 30, threshold: 10 }).subscribe({
+    this.gql.request(AlertCountsDocument, { days: 30, threshold: 10 }).subscribe({
       next: (res) => {
         this.expiryCount.set(res.expiryAlerts.length);
         this.lowStockCount.set(res.lowStockAlerts.length);
@@ -262,12 +171,7 @@ export class DashboardPage {
       error: () => {}
     });
 
-    const qMovements = `query RecentMovements {
-      stockMovements {
-        id type quantity createdAt sku productName
-      }
-    }`;
-    this.gql.request<RecentMovementsQueryResult>(qMovements).subscribe({
+    this.gql.request(StockMovementsDocument, { filter: null }).subscribe({
       next: (res) => {
         this.recentMovements.set(res.stockMovements.slice(0, 8));
         this.loading.set(false);
@@ -279,25 +183,6 @@ export class DashboardPage {
     });
   }
 
-  private loadMe(): void {
-    const query = `query Me { me { id name email roles } }`;
-    this.gql.request<MeQueryResult>(query).subscribe({
-      next: (res) => this.me.set(res.me),
-      error: () => this.me.set(null)
-    });
-  }
-
-  private loadMyPermissions(): void {
-    const query = `query MyPermissions { myPermissions { module canView canCreate canEdit canDelete } }`;
-    this.gql.request<MyPermissionsQueryResult>(query).subscribe({
-      next: (res) => {
-        this.myPermissions.set(res.myPermissions ?? []);
-        if (this.canView('REPORTS')) this.loadProfit();
-      },
-      error: () => this.myPermissions.set([])
-    });
-  }
-
   private addDaysIso(dateIso: string, days: number): string {
     const d = new Date(`${dateIso}T00:00:00Z`);
     d.setUTCDate(d.getUTCDate() + days);
@@ -320,34 +205,15 @@ export class DashboardPage {
       return;
     }
 
-    const qDaily = `query DailySales($date: String!) {
-      dailySalesReport(date: $date) {
-        date
-        totalSalesAmount
-        totalProfitAmount
-        items { productId sku productName quantitySold salesAmount costAmount profitAmount }
-      }
-    }`;
-
-    const qExpenses = `query Expenses($filter: ExpenseFilter) {
-      expenses(filter: $filter) {
-        id date amount paymentMethod createdAt createdBy
-        description
-        category { id name active }
-      }
-    }`;
-
     const from7 = this.addDaysIso(date, -6);
-    const last7Dates = Array.from({ length: 7 }).map((_, i) => this.addDaysIso(date, i - 6));
 
-    const dailyReq = this.gql.request<DailySalesReportQueryResult>(qDaily, { date });
-    const expensesReq = this.gql.request<ExpensesQueryResult>(qExpenses, { filter: { from: from7, to: date } });
-    const last7DailyReqs = last7Dates.map((d) => this.gql.request<DailySalesReportQueryResult>(qDaily, { date: d }));
+    const dailyReq = this.gql.request(DailySalesReportDocument, { date, withCosts: this.canView('COSTS_MARGINS') });
+    const expensesReq = this.gql.request(ExpensesDocument, { filter: { from: from7, to: date } });
 
     forkJoin({
       daily: dailyReq,
       expenses: expensesReq,
-      last7: forkJoin(last7DailyReqs)
+      last7: this.reports.range(from7, date, 'DAY')
     }).subscribe({
       next: ({ daily, expenses, last7 }) => {
         const report = daily.dailySalesReport;
@@ -374,16 +240,15 @@ export class DashboardPage {
         this.expenseBreakdownLabels.set(breakdownSorted.map((x) => x[0]));
         this.expenseBreakdownValues.set(breakdownSorted.map((x) => x[1]));
 
-        const profits = (last7 ?? []).map((r, idx) => {
-          const d = last7Dates[idx];
-          const salesProfit = Number(r?.dailySalesReport?.totalProfitAmount ?? 0);
+        const profits = last7.map((b) => {
+          const salesProfit = Number(b.totalProfitAmount ?? 0);
           const expTotal = expList
-            .filter((e) => String(e.date ?? '') === d)
+            .filter((e) => String(e.date ?? '') === b.period)
             .reduce((sum, e) => sum + Number(e.amount ?? 0), 0);
           return salesProfit - expTotal;
         });
 
-        this.profit7DaysLabels.set(last7Dates);
+        this.profit7DaysLabels.set(last7.map((b) => b.period));
         this.profit7DaysData.set(profits);
 
         this.profitLoading.set(false);
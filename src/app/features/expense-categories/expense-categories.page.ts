@@ -2,40 +2,27 @@ import { CommonModule } from '@angular/common';
 import { Component, inject, signal } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  CreateExpenseCategoryDocument,
+  DeleteExpenseCategoryDocument,
+  ExpenseCategoriesDocument,
+  type ExpenseCategoriesQuery,
+  UpdateExpenseCategoryDocument
+} from '../../core/graphql/generated/graphql';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
 
-type ExpenseCategory = {
-  id: string;
-  name: string;
-  description?: string | null;
-  active: boolean;
-};
-
-type ExpenseCategoriesQueryResult = {
-  expenseCategories: ExpenseCategory[];
-};
-
-type CreateExpenseCategoryMutationResult = {
-  createExpenseCategory: ExpenseCategory;
-};
-
-type UpdateExpenseCategoryMutationResult = {
-  updateExpenseCategory: ExpenseCategory;
-};
-
-type DeleteExpenseCategoryMutationResult = {
-  deleteExpenseCategory: boolean;
-};
+type ExpenseCategory = ExpenseCategoriesQuery['expenseCategories'][number];
 
 @Component({
   selector: 'cis-expense-categories-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, CanDirective],
   templateUrl: './expense-categories.page.html',
   styleUrl: './expense-categories.page.scss'
 })
 export class ExpenseCategoriesPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
 
   loading = signal(false);
   error = signal<string | null>(null);
@@ -65,11 +52,7 @@ export class ExpenseCategoriesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const query = `query ExpenseCategories($filter: ExpenseCategoryFilter) {
-      expenseCategories(filter: $filter) { id name description active }
-    }`;
-
-    this.gql.request<ExpenseCategoriesQueryResult>(query, { filter: null }).subscribe({
+    this.gql.request(ExpenseCategoriesDocument, { filter: null }).subscribe({
       next: (res) => {
         this.categories.set(res.expenseCategories ?? []);
         this.loading.set(false);
@@ -133,11 +116,7 @@ export class ExpenseCategoriesPage {
     const id = this.editingId();
 
     if (!id) {
-      const mutation = `mutation CreateExpenseCategory($input: CreateExpenseCategoryInput!) {
-        createExpenseCategory(input: $input) { id }
-      }`;
-
-      this.gql.request<CreateExpenseCategoryMutationResult>(mutation, { input: { name: raw.name, description: raw.description || null } }).subscribe({
+      this.gql.request(CreateExpenseCategoryDocument, { input: { name: raw.name ?? '', description: raw.description || null } }).subscribe({
         next: () => {
           this.closeDialog();
           this.load();
@@ -150,12 +129,8 @@ export class ExpenseCategoriesPage {
       return;
     }
 
-    const mutation = `mutation UpdateExpenseCategory($input: UpdateExpenseCategoryInput!) {
-      updateExpenseCategory(input: $input) { id }
-    }`;
-
     this.gql
-      .request<UpdateExpenseCategoryMutationResult>(mutation, {
+      .request(UpdateExpenseCategoryDocument, {
         input: {
           id,
           name: raw.name,
@@ -179,9 +154,7 @@ export class ExpenseCategoriesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeleteExpenseCategory($input: DeleteExpenseCategoryInput!) { deleteExpenseCategory(input: $input) }`;
-
-    this.gql.request<DeleteExpenseCategoryMutationResult>(mutation, { input: { id } }).subscribe({
+    this.gql.request(DeleteExpenseCategoryDocument, { input: { id } }).subscribe({
       next: () => {
         if (this.editingId() === id) {
           this.editingId.set(null);
@@ -1,57 +1,35 @@
 import { CommonModule } from '@angular/common';
-import { Component, computed, inject, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  CreateExpenseDocument,
+  DeleteExpenseDocument,
+  ExpenseCategoriesDocument,
+  type ExpenseCategoriesQuery,
+  type ExpenseFieldsFragment,
+  ExpensesDocument,
+  UpdateExpenseDocument
+} from '../../core/graphql/generated/graphql';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
-import { forkJoin } from 'rxjs';
-
-type ExpenseCategory = {
-  id: string;
-  name: string;
-  active: boolean;
-};
-
-type Expense = {
-  id: string;
-  date: string;
-  description?: string | null;
-  amount: number;
-  paymentMethod: string;
-  createdAt: string;
-  createdBy?: string | null;
-  category: ExpenseCategory;
-};
-
-type ExpenseCategoriesQueryResult = {
-  expenseCategories: ExpenseCategory[];
-};
-
-type ExpensesQueryResult = {
-  expenses: Expense[];
-};
-
-type CreateExpenseMutationResult = {
-  createExpense: Expense;
-};
-
-type UpdateExpenseMutationResult = {
-  updateExpense: Expense;
-};
-
-type DeleteExpenseMutationResult = {
-  deleteExpense: boolean;
-};
+import { forkJoin, type Subscription } from 'rxjs';
+
+type ExpenseCategory = ExpenseCategoriesQuery['expenseCategories'][number];
+
+type Expense = ExpenseFieldsFragment;
 
 @Component({
   selector: 'cis-expenses-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, MoneyPipe],
+  imports: [CommonModule, ReactiveFormsModule, MoneyPipe, CanDirective],
   templateUrl: './expenses.page.html',
   styleUrl: './expenses.page.scss'
 })
 export class ExpensesPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
 
   loading = signal(false);
   error = signal<string | null>(null);
@@ -79,6 +57,8 @@ export class ExpensesPage {
   ];
 
   private readonly fb = inject(FormBuilder);
+  private readonly destroyRef = inject(DestroyRef);
+  private expensesSub?: Subscription;
 
   headerForm = this.fb.group({
     date: ['', [Validators.required]]
@@ -284,10 +264,7 @@ export class ExpensesPage {
   }
 
   loadCategories(): void {
-    const query = `query ExpenseCategories($filter: ExpenseCategoryFilter) {
-      expenseCategories(filter: $filter) { id name active }
-    }`;
-    this.gql.request<ExpenseCategoriesQueryResult>(query, { filter: { active: true } }).subscribe({
+    this.gql.request(ExpenseCategoriesDocument, { filter: { active: true } }).subscribe({
       next: (res) => this.categories.set((res.expenseCategories ?? []).filter((c) => c.active)),
       error: () => this.categories.set([])
     });
@@ -297,29 +274,20 @@ export class ExpensesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const query = `query Expenses($filter: ExpenseFilter) {
-      expenses(filter: $filter) {
-        id
-        date
-        description
-        amount
-        paymentMethod
-        createdAt
-        createdBy
-        category { id name active }
-      }
-    }`;
-
-    this.gql.request<ExpensesQueryResult>(query, { filter: null }).subscribe({
-      next: (res) => {
-        this.expenses.set(res.expenses ?? []);
-        this.loading.set(false);
-      },
-      error: (e: unknown) => {
-        this.error.set(e instanceof Error ? e.message : 'Failed to load expenses');
-        this.loading.set(false);
-      }
-    });
+    this.expensesSub?.unsubscribe();
+    this.expensesSub = this.gql
+      .watch(ExpensesDocument, { filter: null })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.expenses.set(res.expenses ?? []);
+          this.loading.set(false);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load expenses');
+          this.loading.set(false);
+        }
+      });
   }
 
   openCreate(): void {
@@ -393,12 +361,8 @@ export class ExpensesPage {
     const date = String(header.date ?? '').trim();
 
     if (!id) {
-      const mutation = `mutation CreateExpense($input: CreateExpenseInput!) {
-        createExpense(input: $input) { id }
-      }`;
-
       const requests = (this.lines() ?? []).map((l) =>
-        this.gql.request<CreateExpenseMutationResult>(mutation, {
+        this.gql.request(CreateExpenseDocument, {
           input: {
             date,
             categoryId: l.categoryId,
@@ -412,7 +376,7 @@ export class ExpensesPage {
       forkJoin(requests).subscribe({
         next: () => {
           this.closeDialog();
-          this.load();
+          this.loading.set(false);
         },
         error: (e: unknown) => {
           this.error.set(e instanceof Error ? e.message : 'Failed to create expenses');
@@ -425,20 +389,16 @@ export class ExpensesPage {
     const v = this.lineForm.getRawValue();
     const input = {
       date,
-      categoryId: v.categoryId,
+      categoryId: v.categoryId ?? '',
       description: v.description || null,
       amount: Number(v.amount ?? 0),
-      paymentMethod: v.paymentMethod
+      paymentMethod: v.paymentMethod ?? 'CASH'
     };
 
-    const mutation = `mutation UpdateExpense($input: UpdateExpenseInput!) {
-      updateExpense(input: $input) { id }
-    }`;
-
-    this.gql.request<UpdateExpenseMutationResult>(mutation, { input: { id, ...input } }).subscribe({
+    this.gql.request(UpdateExpenseDocument, { input: { id, ...input } }).subscribe({
       next: () => {
         this.closeDialog();
-        this.load();
+        this.loading.set(false);
       },
       error: (e: unknown) => {
         this.error.set(e instanceof Error ? e.message : 'Failed to update expense');
@@ -451,10 +411,8 @@ export class ExpensesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeleteExpense($input: DeleteExpenseInput!) { deleteExpense(input: $input) }`;
-
-    this.gql.request<DeleteExpenseMutationResult>(mutation, { input: { id } }).subscribe({
-      next: () => this.load(),
+    this.gql.request(DeleteExpenseDocument, { input: { id } }).subscribe({
+      next: () => this.loading.set(false),
       error: (err: unknown) => {
         this.error.set(err instanceof Error ? err.message : 'Failed to delete expense');
         this.loading.set(false);
@@ -3,28 +3,15 @@ import { Component, inject, signal } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  ExpiryAlertsDocument,
+  type ExpiryAlertsQuery,
+  LowStockAlertsDocument,
+  type LowStockAlertsQuery
+} from '../../core/graphql/generated/graphql';
 
-type ExpiryAlert = {
-  productId: string;
-  sku: string;
-  productName: string;
-  batchId: string;
-  batchNumber: string;
-  expiryDate: string;
-  qtyOnHand: number;
-  daysToExpiry: number;
-};
-
-type LowStockAlert = {
-  productId: string;
-  sku: string;
-  productName: string;
-  qtyOnHand: number;
-  threshold: number;
-};
-
-type ExpiryAlertsQueryResult = { expiryAlerts: ExpiryAlert[] };
-type LowStockAlertsQueryResult = { lowStockAlerts: LowStockAlert[] };
+type ExpiryAlert = ExpiryAlertsQuery['expiryAlerts'][number];
+type LowStockAlert = LowStockAlertsQuery['lowStockAlerts'][number];
 
 @Component({
   selector: 'cis-expiry-alerts-page',
@@ -57,10 +44,7 @@ export class ExpiryAlertsPage {
 
     const { days, threshold } = this.form.getRawValue();
 
-    const qExpiry = `query Expiry($days: Int!) { expiryAlerts(days: $days) { productId sku productName batchId batchNumber expiryDate qtyOnHand daysToExpiry } }`;
-    const qLow = `query Low($t: Int!) { lowStockAlerts(threshold: $t) { productId sku productName qtyOnHand threshold } }`;
-
-    this.gql.request<ExpiryAlertsQueryResult>(qExpiry, { days: Number(days ?? 30) }).subscribe({
+    this.gql.request(ExpiryAlertsDocument, { days: Number(days ?? 30) }).subscribe({
       next: (res) => {
         this.expiry.set(res.expiryAlerts);
         this.loading.set(false);
@@ -71,7 +55,7 @@ export class ExpiryAlertsPage {
       }
     });
 
-    this.gql.request<LowStockAlertsQueryResult>(qLow, { t: Number(threshold ?? 10) }).subscribe({
+    this.gql.request(LowStockAlertsDocument, { threshold: Number(threshold ?? 10) }).subscribe({
       next: (res) => this.lowStock.set(res.lowStockAlerts),
       error: () => {}
     });
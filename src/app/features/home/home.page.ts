@@ -1,18 +1,10 @@
 import { CommonModule } from '@angular/common';
-import { Component, computed, signal } from '@angular/core';
+import { Component, computed, inject, signal } from '@angular/core';
 import { Router, RouterLink } from '@angular/router';
 
 import { AuthService } from '../../core/auth/auth.service';
-import { GraphqlService } from '../../core/graphql/graphql.service';
-
-type MeQueryResult = {
-  me: {
-    id: string;
-    name: string;
-    email: string;
-    roles: string[];
-  } | null;
-};
+import { SessionStore } from '../../core/auth/session.store';
+import type { ModuleKey } from '../../shared/models/permission';
 
 type HomeCard = {
   title: string;
@@ -27,25 +19,14 @@ type HomeCard = {
     | 'expenses'
     | 'reports'
     | 'profitManagement'
-    | 'users';
+    | 'users'
+    | 'auditLog';
   description: string;
   route?: string;
   onClick?: () => void;
   hidden?: boolean;
 };
 
-type MyPermission = {
-  module: string;
-  canView: boolean;
-  canCreate: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-};
-
-type MyPermissionsQueryResult = {
-  myPermissions: MyPermission[];
-};
-
 @Component({
   selector: 'cis-home-page',
   standalone: true,
@@ -54,19 +35,13 @@ type MyPermissionsQueryResult = {
   styleUrl: './home.page.scss'
 })
 export class HomePage {
+  private readonly session = inject(SessionStore);
+
   loading = signal(false);
   error = signal<string | null>(null);
-  me = signal<MeQueryResult['me']>(null);
-  myPermissions = signal<MyPermission[]>([]);
-
-  isAdmin = computed(() => (this.me()?.roles ?? []).includes('ADMIN'));
+  me = this.session.user;
 
-  canView = (module: string): boolean => {
-    if (this.isAdmin()) return true;
-    const mod = String(module).toUpperCase();
-    const p = this.myPermissions().find((x) => String(x.module).toUpperCase() === mod);
-    return Boolean(p?.canView);
-  };
+  canView = (module: ModuleKey): boolean => this.session.canView(module);
 
   cards = computed<HomeCard[]>(() => [
     {
@@ -145,40 +120,24 @@ export class HomePage {
       description: 'Manage users, roles and access.',
       route: '/users',
       hidden: !this.canView('USERS_ROLES')
+    },
+    {
+      title: 'Audit Log',
+      icon: 'auditLog',
+      description: 'Who changed what, and when.',
+      route: '/audit-log',
+      hidden: !this.canView('AUDIT_LOG')
     }
   ]);
 
   constructor(
-    private readonly gql: GraphqlService,
     private readonly auth: AuthService,
     private readonly router: Router
   ) {
-    this.loadMe();
-    this.loadMyPermissions();
-  }
-
-  loadMe(): void {
     this.loading.set(true);
-    this.error.set(null);
-
-    const query = `query Me { me { id name email roles } }`;
-    this.gql.request<MeQueryResult>(query).subscribe({
-      next: (res) => {
-        this.me.set(res.me);
-        this.loading.set(false);
-      },
-      error: (e: unknown) => {
-        this.error.set(e instanceof Error ? e.message : 'Failed to load user');
-        this.loading.set(false);
-      }
-    });
-  }
-
-  loadMyPermissions(): void {
-    const query = `query MyPermissions { myPermissions { module canView canCreate canEdit canDelete } }`;
-    this.gql.request<MyPermissionsQueryResult>(query).subscribe({
-      next: (res) => this.myPermissions.set(res.myPermissions ?? []),
-      error: () => this.myPermissions.set([])
+    this.session.load().subscribe(() => {
+      if (!this.session.user()) this.error.set('Failed to load user');
+      this.loading.set(false);
     });
   }
 
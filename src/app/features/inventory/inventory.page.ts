@@ -2,39 +2,18 @@ import { Component, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  AdjustInventoryDocument,
+  InventoryDocument,
+  type InventoryItemFieldsFragment,
+  LowStockBatchAlertsDocument
+} from '../../core/graphql/generated/graphql';
 import { inject } from '@angular/core';
+import { type UnitFactor, breakdownQuantity, formatQuantity, unitOptions } from '../../shared/utils/unit.utils';
 
-type InventoryItem = {
-  id: string;
-  productId: string;
-  sku: string;
-  productName: string;
-  unitOfMeasure?: string | null;
-  batchId: string;
-  batchNumber: string;
-  expiryDate: string;
-  location: string;
-  qtyOnHand: number;
-};
-
-type InventoryQueryResult = {
-  inventory: InventoryItem[];
-};
-
-type AdjustInventoryMutationResult = {
-  adjustInventory: InventoryItem;
-};
-
-type LowStockBatchAlert = {
-  batchId: string;
-  location: string;
-  qtyOnHand: number;
-  threshold: number;
-};
-
-type LowStockBatchAlertsQueryResult = {
-  lowStockBatchAlerts: LowStockBatchAlert[];
-};
+type InventoryItem = InventoryItemFieldsFragment;
+
+const BREAKDOWN = '';
 
 @Component({
   selector: 'cis-inventory-page',
@@ -56,6 +35,8 @@ export class InventoryPage {
 
   lowStockKeys = signal<Set<string>>(new Set());
 
+  displayUnits = signal<Record<string, string>>({});
+
   private readonly fb = inject(FormBuilder);
 
   filterForm = this.fb.group({
@@ -97,14 +78,8 @@ export class InventoryPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation AdjustInventory($input: AdjustInventoryInput!) {
-      adjustInventory(input: $input) {
-        id productId sku productName unitOfMeasure batchId batchNumber expiryDate location qtyOnHand
-      }
-    }`;
-
     this.gql
-      .request<AdjustInventoryMutationResult>(mutation, {
+      .request(AdjustInventoryDocument, {
         input: {
           batchId: row.batchId,
           location: row.location,
@@ -147,23 +122,8 @@ export class InventoryPage {
 
     const { query, includeZero, lowStockThreshold } = this.filterForm.getRawValue();
 
-    const q = `query Inventory($filter: InventoryFilter) {
-      inventory(filter: $filter) {
-        id 
-        productId 
-        sku 
-        productName 
-        unitOfMeasure
-        batchId 
-        batchNumber 
-        expiryDate 
-        location 
-        qtyOnHand
-      }
-    }`;
-
     this.gql
-      .request<InventoryQueryResult>(q, {
+      .request(InventoryDocument, {
         filter: {
           query: query || null,
           includeZero: !!includeZero
@@ -189,16 +149,30 @@ export class InventoryPage {
       });
   }
 
+  unitChoices(i: InventoryItem): UnitFactor[] {
+    return i.units.length ? unitOptions(i.unitOfMeasure, i.units) : [];
+  }
+
+  displayUnit(i: InventoryItem): string {
+    return this.displayUnits()[i.productId] ?? BREAKDOWN;
+  }
+
+  setDisplayUnit(i: InventoryItem, unit: string): void {
+    this.displayUnits.set({ ...this.displayUnits(), [i.productId]: unit });
+  }
+
+  displayQty(i: InventoryItem): string {
+    const unit = this.displayUnit(i);
+    if (unit === BREAKDOWN) return breakdownQuantity(i.qtyOnHand, i.unitOfMeasure, i.units);
+    return formatQuantity(i.qtyOnHand, unit, i.units);
+  }
+
   isLowStock(i: InventoryItem): boolean {
     return this.lowStockKeys().has(this.lowStockKey(i.batchId, i.location));
   }
 
   private loadLowStockAlerts(threshold: number): void {
-    const q = `query LowStockBatchAlerts($threshold: Int!) {
-      lowStockBatchAlerts(threshold: $threshold) { batchId location qtyOnHand threshold }
-    }`;
-
-    this.gql.request<LowStockBatchAlertsQueryResult>(q, { threshold }).subscribe({
+    this.gql.request(LowStockBatchAlertsDocument, { threshold }).subscribe({
       next: (res) => {
         const set = new Set<string>();
         for (const a of res.lowStockBatchAlerts ?? []) {
@@ -1,15 +1,13 @@
 import { Component, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
-import { Router } from '@angular/router';
+import { CombinedGraphQLErrors } from '@apollo/client';
+import { ActivatedRoute, Router } from '@angular/router';
 import { AuthService } from '../../core/auth/auth.service';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import { LoginDocument } from '../../core/graphql/generated/graphql';
 
-type LoginMutationResult = {
-  login: {
-    accessToken: string;
-  };
-};
+const INACTIVE_CODES = ['USER_INACTIVE', 'ACCOUNT_DISABLED'];
 
 @Component({
   selector: 'cis-login-page',
@@ -34,7 +32,8 @@ export class LoginPage {
   constructor(
     private readonly gql: GraphqlService,
     private readonly auth: AuthService,
-    private readonly router: Router
+    private readonly router: Router,
+    private readonly route: ActivatedRoute
   ) {}
 
   togglePasswordVisibility(): void {
@@ -47,22 +46,32 @@ export class LoginPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const { email, password } = this.form.getRawValue();
-
-    const query = `mutation Login($input: LoginInput!) { login(input: $input) { accessToken } }`;
+    const { email, password, remember } = this.form.getRawValue();
 
     this.gql
-      .request<LoginMutationResult>(query, { input: { email, password } })
+      .request(LoginDocument, { input: { email: email ?? '', password: password ?? '' } })
       .subscribe({
         next: (res) => {
-          this.auth.setAccessToken(res.login.accessToken);
-          this.router.navigateByUrl('/home');
+          this.auth.startSession(res.login.accessToken, res.login.refreshToken ?? null, !!remember);
+          this.router.navigateByUrl(this.returnUrl());
           this.loading.set(false);
         },
         error: (e: unknown) => {
-          this.error.set(e instanceof Error ? e.message : 'Login failed');
+          this.error.set(this.loginError(e));
           this.loading.set(false);
         }
       });
   }
+
+  private loginError(e: unknown): string {
+    const inactive =
+      CombinedGraphQLErrors.is(e) && e.errors.some((err) => INACTIVE_CODES.includes(String(err.extensions?.['code'] ?? '')));
+    if (inactive) return 'This account has been deactivated. Contact an administrator.';
+    return e instanceof Error ? e.message : 'Login failed';
+  }
+
+  private returnUrl(): string {
+    const url = this.route.snapshot.queryParamMap.get('returnUrl') ?? '';
+    return url.startsWith('/') && !url.startsWith('//') && !url.startsWith('/login') ? url : '/home';
+  }
 }
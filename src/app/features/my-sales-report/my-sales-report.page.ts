@@ -5,25 +5,10 @@ import { RouterLink } from '@angular/router';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import { type MySaleFieldsFragment, MySalesDocument } from '../../core/graphql/generated/graphql';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
 
-type MySaleLine = {
-  id: string;
-  productName: string;
-  quantity: number;
-  unitPrice: number;
-};
-
-type MySale = {
-  id: string;
-  createdAt: string;
-  createdBy?: string | null;
-  customer?: string | null;
-  referenceNumber?: string | null;
-  lines: MySaleLine[];
-};
-
-type MySalesQueryResult = { mySales: MySale[] };
+type MySale = MySaleFieldsFragment;
 
 @Component({
   selector: 'cis-my-sales-report-page',
@@ -66,8 +51,7 @@ export class MySalesReportPage {
   refresh(): void {
     this.loading.set(true);
     this.error.set(null);
-    const q = `query { mySales { id createdAt createdBy customer referenceNumber lines { id productName quantity unitPrice } } }`;
-    this.gql.request<MySalesQueryResult>(q).subscribe({
+    this.gql.request(MySalesDocument).subscribe({
       next: (res) => {
         this.sales.set(res.mySales);
         this.loading.set(false);
@@ -1,42 +1,38 @@
 import { CommonModule } from '@angular/common';
-import { Component, computed, inject, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { RouterLink } from '@angular/router';
+import type { Subscription } from 'rxjs';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  DeleteMySaleDocument,
+  type MySaleFieldsFragment,
+  MySalesDocument,
+  UpdateMySaleDocument
+} from '../../core/graphql/generated/graphql';
+import { OutboxService } from '../../core/offline/outbox.service';
+import type { OutboxEntry } from '../../core/offline/outbox.storage';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
+import { ConfirmDialogComponent } from '../../shared/ui/confirm-dialog/confirm-dialog.component';
 
-type MySaleLine = {
-  id: string;
-  productName: string;
-  quantity: number;
-  unitPrice: number;
-};
-
-type MySale = {
-  id: string;
-  createdAt: string;
-  createdBy?: string | null;
-  customer?: string | null;
-  referenceNumber?: string | null;
-  lines: MySaleLine[];
-};
-
-type MySalesQueryResult = { mySales: MySale[] };
-type CreateMySaleMutationResult = { createMySale: MySale };
-type UpdateMySaleMutationResult = { updateMySale: MySale };
-type DeleteMySaleMutationResult = { deleteMySale: boolean };
+type MySale = MySaleFieldsFragment;
+
+type PendingMySale = Extract<OutboxEntry, { operation: 'createMySale' }>;
 
 @Component({
   selector: 'cis-my-sales-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, RouterLink, MoneyPipe],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, MoneyPipe, ConfirmDialogComponent, CanDirective],
   templateUrl: './my-sales.page.html',
   styleUrl: './my-sales.page.scss'
 })
 export class MySalesPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
+  readonly outbox = inject(OutboxService);
 
   loading = signal(false);
   error = signal<string | null>(null);
@@ -51,8 +47,17 @@ export class MySalesPage {
 
   sales = signal<MySale[]>([]);
 
+  confirmDiscardOpen = signal(false);
+  pendingDiscardId = signal<string | null>(null);
+
+  pendingSales = computed(() =>
+    this.outbox.entries().flatMap((e): PendingMySale[] => (e.operation === 'createMySale' ? [e] : []))
+  );
+
   private readonly fb = inject(FormBuilder);
   private readonly gql = inject(GraphqlService);
+  private readonly destroyRef = inject(DestroyRef);
+  private salesSub?: Subscription;
 
   headerForm = this.fb.group({
     customer: [''],
@@ -90,6 +95,24 @@ export class MySalesPage {
     this.deleteSale(id);
   }
 
+  openDiscardConfirm(id: string): void {
+    this.pendingDiscardId.set(id);
+    this.confirmDiscardOpen.set(true);
+  }
+
+  cancelDiscardConfirm(): void {
+    this.confirmDiscardOpen.set(false);
+    this.pendingDiscardId.set(null);
+  }
+
+  confirmDiscard(): void {
+    const id = this.pendingDiscardId();
+    if (!id) return;
+    this.confirmDiscardOpen.set(false);
+    this.pendingDiscardId.set(null);
+    this.outbox.discard(id);
+  }
+
   toggleDetails(s: MySale): void {
     const id = String(s.id);
     this.detailsSaleId.set(this.detailsSaleId() === id ? null : id);
@@ -131,18 +154,21 @@ export class MySalesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const q = `query { mySales { id createdAt createdBy customer referenceNumber lines { id productName quantity unitPrice } } }`;
-    this.gql.request<MySalesQueryResult>(q).subscribe({
-      next: (res) => {
-        this.sales.set(res.mySales);
-        this.loading.set(false);
-      },
-      error: (e: unknown) => {
-        this.sales.set([]);
-        this.error.set(e instanceof Error ? e.message : 'Failed to load my sales');
-        this.loading.set(false);
-      }
-    });
+    this.salesSub?.unsubscribe();
+    this.salesSub = this.gql
+      .watch(MySalesDocument)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.sales.set(res.mySales);
+          this.loading.set(false);
+        },
+        error: (e: unknown) => {
+          this.sales.set([]);
+          this.error.set(e instanceof Error ? e.message : 'Failed to load my sales');
+          this.loading.set(false);
+        }
+      });
   }
 
   lineTotal(quantity: number | null | undefined, unitPrice: number | null | undefined): number {
@@ -161,7 +187,7 @@ export class MySalesPage {
     return this.lines().reduce((sum, l) => sum + this.lineTotal(l.quantity, l.unitPrice), 0);
   });
 
-  saleTotalValue(s: MySale): number {
+  saleTotalValue(s: MySale | PendingMySale['input']): number {
     return (s.lines ?? []).reduce((sum, l) => sum + Number(l.quantity ?? 0) * Number(l.unitPrice ?? 0), 0);
   }
 
@@ -217,15 +243,8 @@ export class MySalesPage {
 
     const editingId = this.editingSaleId();
     if (editingId) {
-      const mutation = `mutation UpdateMySale($input: UpdateMySaleInput!) {
-        updateMySale(input: $input) {
-          id createdAt createdBy customer referenceNumber
-          lines { id productName quantity unitPrice }
-        }
-      }`;
-
       this.gql
-        .request<UpdateMySaleMutationResult>(mutation, {
+        .request(UpdateMySaleDocument, {
           input: {
             id: editingId,
             customer: header.customer?.trim() ? String(header.customer).trim() : null,
@@ -235,7 +254,7 @@ export class MySalesPage {
         })
         .subscribe({
           next: () => {
-            this.refresh();
+            this.loading.set(false);
             this.createOpen.set(false);
             this.editingSaleId.set(null);
           },
@@ -247,24 +266,15 @@ export class MySalesPage {
       return;
     }
 
-    const mutation = `mutation CreateMySale($input: CreateMySaleInput!) {
-      createMySale(input: $input) {
-        id createdAt createdBy customer referenceNumber
-        lines { id productName quantity unitPrice }
-      }
-    }`;
-
-    this.gql
-      .request<CreateMySaleMutationResult>(mutation, {
-        input: {
-          customer: header.customer?.trim() ? String(header.customer).trim() : null,
-          referenceNumber: header.referenceNumber?.trim() ? String(header.referenceNumber).trim() : null,
-          lines: this.lines()
-        }
+    this.outbox
+      .createMySale({
+        customer: header.customer?.trim() ? String(header.customer).trim() : null,
+        referenceNumber: header.referenceNumber?.trim() ? String(header.referenceNumber).trim() : null,
+        lines: this.lines()
       })
       .subscribe({
         next: () => {
-          this.refresh();
+          this.loading.set(false);
           this.createOpen.set(false);
         },
         error: (e: unknown) => {
@@ -278,10 +288,9 @@ export class MySalesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeleteMySale($input: DeleteMySaleInput!) { deleteMySale(input: $input) }`;
-    this.gql.request<DeleteMySaleMutationResult>(mutation, { input: { id } }).subscribe({
+    this.gql.request(DeleteMySaleDocument, { input: { id } }).subscribe({
       next: () => {
-        this.refresh();
+        this.loading.set(false);
       },
       error: (e: unknown) => {
         this.error.set(e instanceof Error ? e.message : 'Failed to delete my sale');
@@ -0,0 +1,14 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+
+@Component({
+  selector: 'cis-no-access-page',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './no-access.page.html',
+  styleUrl: './no-access.page.scss'
+})
+export class NoAccessPage {
+  from = inject(ActivatedRoute).snapshot.queryParamMap.get('from') ?? '';
+}
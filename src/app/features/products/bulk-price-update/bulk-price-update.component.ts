@@ -0,0 +1,207 @@
+import { CommonModule } from '@angular/common';
+import {
+  Component,
+  DestroyRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  SimpleChanges,
+  computed,
+  inject,
+  signal
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+
+import { GraphqlService } from '../../../core/graphql/graphql.service';
+import {
+  BulkUpdatePricesDocument,
+  PriceCandidatesDocument,
+  type PriceCandidatesQuery
+} from '../../../core/graphql/generated/graphql';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { addDays, toIsoDate } from '../../../shared/utils/date.utils';
+import { adjustByPercent } from '../../../shared/utils/math.utils';
+
+type Category = {
+  id: string;
+  name: string;
+  active: boolean;
+};
+
+type Candidate = PriceCandidatesQuery['products'][number];
+
+type PriceField = 'sellingPrice' | 'buyingPrice';
+
+type Step = 'setup' | 'preview';
+
+type PreviewRow = {
+  product: Candidate;
+  current: number;
+  next: number;
+};
+
+const ROUNDING_STEPS = [0.01, 0.05, 0.1, 0.5, 1];
+
+@Component({
+  selector: 'cis-bulk-price-update',
+  standalone: true,
+  imports: [CommonModule, MoneyPipe],
+  templateUrl: './bulk-price-update.component.html',
+  styleUrl: './bulk-price-update.component.scss'
+})
+export class BulkPriceUpdateComponent implements OnChanges {
+  @Input({ required: true }) categories: Category[] = [];
+  @Input() open = false;
+  @Input() showCosts = true;
+
+  @Output() applied = new EventEmitter<number>();
+  @Output() close = new EventEmitter<void>();
+
+  private readonly gql = inject(GraphqlService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  step = signal<Step>('setup');
+  loading = signal(false);
+  saving = signal(false);
+  error = signal<string | null>(null);
+
+  category = signal('');
+  percent = signal<number | null>(null);
+  field = signal<PriceField>('sellingPrice');
+  rounding = signal(0.01);
+  effectiveFrom = signal('');
+
+  candidates = signal<Candidate[]>([]);
+  excluded = signal<Set<string>>(new Set());
+
+  readonly roundingSteps = ROUNDING_STEPS;
+
+  rows = computed<PreviewRow[]>(() => {
+    const percent = this.percent() ?? 0;
+    return this.candidates()
+      .filter((p) => p[this.field()] !== null && p[this.field()] !== undefined)
+      .map((p) => {
+        const current = Number(p[this.field()]);
+        return { product: p, current, next: adjustByPercent(current, percent, this.rounding()) };
+      });
+  });
+
+  selectedRows = computed(() => this.rows().filter((r) => !this.excluded().has(r.product.id) && r.next !== r.current));
+
+  canPreview = computed(() => !!this.category() && !!this.percent() && !this.loading());
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['open']?.currentValue === true) {
+      this.reset();
+    }
+  }
+
+  minEffectiveDate(): string {
+    return addDays(toIsoDate(new Date()), 1);
+  }
+
+  fieldLabel(field: PriceField): string {
+    return field === 'sellingPrice' ? 'Selling price' : 'Buying price';
+  }
+
+  setPercent(value: string): void {
+    const n = Number(value);
+    this.percent.set(value.trim() && Number.isFinite(n) ? n : null);
+  }
+
+  preview(): void {
+    if (!this.canPreview()) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql
+      .request(PriceCandidatesDocument, { filter: { category: this.category(), active: true }, withCosts: this.showCosts })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.candidates.set(res.products);
+          this.excluded.set(new Set());
+          this.loading.set(false);
+          if (!this.rows().length) {
+            this.error.set(`No active products with a ${this.fieldLabel(this.field()).toLowerCase()} in ${this.category()}`);
+            return;
+          }
+          this.step.set('preview');
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load products');
+          this.loading.set(false);
+        }
+      });
+  }
+
+  isIncluded(row: PreviewRow): boolean {
+    return !this.excluded().has(row.product.id);
+  }
+
+  toggle(row: PreviewRow, included: boolean): void {
+    const next = new Set(this.excluded());
+    if (included) next.delete(row.product.id);
+    else next.add(row.product.id);
+    this.excluded.set(next);
+  }
+
+  back(): void {
+    this.error.set(null);
+    this.step.set('setup');
+  }
+
+  apply(): void {
+    const rows = this.selectedRows();
+    if (!rows.length || this.saving()) return;
+
+    const effectiveFrom = this.effectiveFrom();
+    if (effectiveFrom && effectiveFrom < this.minEffectiveDate()) {
+      this.error.set('Choose a date after today, or leave it empty to apply now');
+      return;
+    }
+
+    this.saving.set(true);
+    this.error.set(null);
+
+    this.gql
+      .request(BulkUpdatePricesDocument, {
+        input: {
+          effectiveFrom: effectiveFrom || null,
+          changes: rows.map((r) => ({ productId: r.product.id, [this.field()]: r.next }))
+        },
+        withCosts: this.showCosts
+      })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.saving.set(false);
+          this.applied.emit(res.bulkUpdatePrices.length);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to update prices');
+          this.saving.set(false);
+        }
+      });
+  }
+
+  cancel(): void {
+    this.close.emit();
+  }
+
+  private reset(): void {
+    this.step.set('setup');
+    this.loading.set(false);
+    this.saving.set(false);
+    this.error.set(null);
+    this.category.set('');
+    this.percent.set(null);
+    this.field.set('sellingPrice');
+    this.rounding.set(0.01);
+    this.effectiveFrom.set('');
+    this.candidates.set([]);
+    this.excluded.set(new Set());
+  }
+}
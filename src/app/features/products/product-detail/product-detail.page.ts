@@ -0,0 +1,693 @@
+import { CommonModule } from '@angular/common';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { type Subscription, switchMap } from 'rxjs';
+
+import { FileStoreService } from '../../../core/files/file-store.service';
+import { GraphqlService } from '../../../core/graphql/graphql.service';
+import {
+  AddProductAttachmentDocument,
+  type AttachmentKind,
+  type BatchDetailFieldsFragment,
+  type BatchStatus,
+  CancelPriceChangeDocument,
+  CreateBatchDocument,
+  type PriceChangeFieldsFragment,
+  type PriceChangeStatus,
+  ProductDetailDocument,
+  type ProductAttachmentFieldsFragment,
+  type ProductDetailQuery,
+  RemoveProductAttachmentDocument,
+  SchedulePriceChangeDocument,
+  SetBatchStatusDocument,
+  SetProductUnitsDocument,
+  UnitsDocument,
+  type UnitsQuery,
+  UpdateBatchDocument,
+  UpdateProductDocument
+} from '../../../core/graphql/generated/graphql';
+import { MaskedPipe } from '../../../shared/pipes/masked.pipe';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { FileUrlPipe } from '../../../shared/pipes/file-url.pipe';
+import { ImagePickerComponent } from '../../../shared/ui/image-picker/image-picker.component';
+import { CanPipe } from '../../../shared/pipes/can.pipe';
+import { CanDirective } from '../../../shared/directives/can.directive';
+import { PermissionService } from '../../../shared/services/permission.service';
+import { addDays, toIsoDate } from '../../../shared/utils/date.utils';
+import { marginPercent } from '../../../shared/utils/math.utils';
+import { formatBytes } from '../../../shared/utils/string.utils';
+import { type UnitFactor, breakdownQuantity, conversionChain } from '../../../shared/utils/unit.utils';
+
+type Product = NonNullable<ProductDetailQuery['product']>;
+
+type Batch = BatchDetailFieldsFragment;
+
+type Unit = UnitsQuery['units'][number];
+
+type Attachment = ProductAttachmentFieldsFragment;
+
+type BatchState = BatchStatus | 'EXPIRED' | 'DEPLETED';
+
+type PriceEntry = PriceChangeFieldsFragment & {
+  selling: number | null;
+  buying: number | null;
+  previousSelling: number | null;
+  previousBuying: number | null;
+  margin: number | null;
+};
+
+const STATE_LABELS: Record<BatchState, string> = {
+  ACTIVE: 'Active',
+  QUARANTINED: 'Quarantined',
+  RECALLED: 'Recalled',
+  EXPIRED: 'Expired',
+  DEPLETED: 'Depleted'
+};
+
+const STATE_CLASSES: Record<BatchState, string> = {
+  ACTIVE: 'bg-emerald-50 text-emerald-700',
+  QUARANTINED: 'bg-amber-50 text-amber-700',
+  RECALLED: 'bg-rose-50 text-rose-700',
+  EXPIRED: 'bg-slate-100 text-slate-700',
+  DEPLETED: 'bg-slate-100 text-slate-500'
+};
+
+const PRICE_STATUS_CLASSES: Record<PriceChangeStatus, string> = {
+  SCHEDULED: 'bg-indigo-50 text-indigo-700',
+  APPLIED: 'bg-emerald-50 text-emerald-700',
+  CANCELLED: 'bg-slate-100 text-slate-500'
+};
+
+const ATTACHMENT_KINDS: Record<AttachmentKind, string> = {
+  LEAFLET: 'Leaflet',
+  CERTIFICATE: 'Certificate',
+  OTHER: 'Other'
+};
+
+const ATTACHMENT_TYPES = '.pdf,.doc,.docx,image/jpeg,image/png,image/webp';
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+@Component({
+  selector: 'cis-product-detail-page',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterLink,
+    ImagePickerComponent,
+    MoneyPipe,
+    MaskedPipe,
+    FileUrlPipe,
+    CanPipe,
+    CanDirective
+  ],
+  templateUrl: './product-detail.page.html',
+  styleUrl: './product-detail.page.scss'
+})
+export class ProductDetailPage {
+  private readonly perm = inject(PermissionService);
+  private readonly files = inject(FileStoreService);
+
+  loading = signal(false);
+  saving = signal(false);
+  error = signal<string | null>(null);
+  formError = signal<string | null>(null);
+
+  product = signal<Product | null>(null);
+
+  batches = computed(() =>
+    [...(this.product()?.batches ?? [])].sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))
+  );
+
+  totalOnHand = computed(() => this.batches().reduce((sum, b) => sum + this.onHand(b), 0));
+
+  priceTimeline = computed<PriceEntry[]>(() => {
+    const changes = [...(this.product()?.priceHistory ?? [])].sort(
+      (a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom) || a.changedAt.localeCompare(b.changedAt)
+    );
+
+    let selling: number | null = null;
+    let buying: number | null = null;
+    const entries = changes.map((c) => {
+      const entry: PriceEntry = {
+        ...c,
+        selling: c.sellingPrice ?? selling,
+        buying: c.buyingPrice ?? buying,
+        previousSelling: selling,
+        previousBuying: buying,
+        margin: marginPercent(c.buyingPrice ?? buying, c.sellingPrice ?? selling)
+      };
+      if (c.status !== 'CANCELLED') {
+        selling = entry.selling;
+        buying = entry.buying;
+      }
+      return entry;
+    });
+    return entries.reverse();
+  });
+
+  conversions = computed(() => {
+    const p = this.product();
+    return p ? conversionChain(p.unitOfMeasure, p.units) : '';
+  });
+
+  onHandLabel = computed(() => {
+    const p = this.product();
+    return p ? breakdownQuantity(this.totalOnHand(), p.unitOfMeasure, p.units) : '';
+  });
+
+  currentMargin = computed(() => marginPercent(this.product()?.buyingPrice, this.product()?.sellingPrice));
+
+  editOpen = signal(false);
+  editingBatch = signal<Batch | null>(null);
+
+  createOpen = signal(false);
+
+  statusOpen = signal(false);
+  statusBatch = signal<Batch | null>(null);
+
+  priceOpen = signal(false);
+
+  imageSaving = signal(false);
+  uploading = signal(false);
+  attachmentKind = signal<AttachmentKind>('LEAFLET');
+  removingId = signal<string | null>(null);
+
+  readonly attachmentKinds = Object.keys(ATTACHMENT_KINDS) as AttachmentKind[];
+  readonly attachmentTypes = ATTACHMENT_TYPES;
+
+  unitsOpen = signal(false);
+  catalogueUnits = signal<Unit[]>([]);
+  packRows = signal<UnitFactor[]>([]);
+  cancellingId = signal<string | null>(null);
+
+  readonly statuses: BatchStatus[] = ['ACTIVE', 'QUARANTINED', 'RECALLED'];
+
+  private readonly fb = inject(FormBuilder);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private productSub?: Subscription;
+
+  editForm = this.fb.group({
+    expiryDate: ['', [Validators.required]],
+    costPrice: [0 as number, [Validators.required, Validators.min(0)]]
+  });
+
+  createForm = this.fb.group({
+    batchNumber: ['', [Validators.required]],
+    expiryDate: ['', [Validators.required]],
+    costPrice: [0 as number, [Validators.required, Validators.min(0)]],
+    quantityReceived: [0 as number, [Validators.required, Validators.min(0)]],
+    location: ['MAIN']
+  });
+
+  statusForm = this.fb.group({
+    status: ['ACTIVE' as BatchStatus, [Validators.required]],
+    reason: ['']
+  });
+
+  priceForm = this.fb.group({
+    effectiveFrom: ['', [Validators.required]],
+    sellingPrice: [null as number | null, [Validators.min(0)]],
+    buyingPrice: [null as number | null, [Validators.min(0)]]
+  });
+
+  unitsForm = this.fb.group({
+    baseUnit: ['', [Validators.required]],
+    purchaseUnit: [''],
+    saleUnit: ['']
+  });
+
+  constructor(private readonly gql: GraphqlService) {
+    this.perm.load();
+    this.route.paramMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
+      this.load(params.get('id') ?? '');
+    });
+  }
+
+  load(id: string): void {
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.productSub?.unsubscribe();
+    this.productSub = this.gql
+      .watch(ProductDetailDocument, { id, withCosts: this.perm.canViewCosts() })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          if (res.product?.mergedIntoId) {
+            this.router.navigate(['/products', res.product.mergedIntoId], { replaceUrl: true });
+            return;
+          }
+          this.product.set(res.product ?? null);
+          if (!res.product) this.error.set('Product not found');
+          this.loading.set(false);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load product');
+          this.loading.set(false);
+        }
+      });
+  }
+
+  onHand(b: Batch): number {
+    return b.stock.reduce((sum, s) => sum + s.qtyOnHand, 0);
+  }
+
+  state(b: Batch): BatchState {
+    if (b.status !== 'ACTIVE') return b.status;
+    if (b.expiryDate < toIsoDate(new Date())) return 'EXPIRED';
+    if (this.onHand(b) <= 0) return 'DEPLETED';
+    return 'ACTIVE';
+  }
+
+  stateLabel(b: Batch): string {
+    return STATE_LABELS[this.state(b)];
+  }
+
+  stateClass(b: Batch): string {
+    return STATE_CLASSES[this.state(b)];
+  }
+
+  statusLabel(status: BatchStatus): string {
+    return STATE_LABELS[status];
+  }
+
+  attachmentKindLabel(kind: AttachmentKind): string {
+    return ATTACHMENT_KINDS[kind];
+  }
+
+  sizeLabel(a: Attachment): string {
+    return formatBytes(a.size);
+  }
+
+  setImage(imageUrl: string | null): void {
+    const p = this.product();
+    if (!p) return;
+
+    const previous = p.imageUrl ?? null;
+    this.imageSaving.set(true);
+    this.error.set(null);
+
+    this.gql
+      .request(UpdateProductDocument, { input: { id: p.id, imageUrl }, withCosts: this.perm.canViewCosts() })
+      .subscribe({
+        next: () => {
+          this.imageSaving.set(false);
+          if (previous !== imageUrl) this.files.discard(previous);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to update image');
+          this.imageSaving.set(false);
+          this.files.discard(imageUrl);
+        }
+      });
+  }
+
+  onAttachmentFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    const p = this.product();
+    if (!file || !p) return;
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      this.error.set('Attachments must be 20 MB or smaller');
+      return;
+    }
+
+    this.uploading.set(true);
+    this.error.set(null);
+
+    this.files
+      .upload(file, file.name)
+      .pipe(
+        switchMap((stored) =>
+          this.gql.request(AddProductAttachmentDocument, {
+            input: {
+              productId: p.id,
+              kind: this.attachmentKind(),
+              name: stored.name,
+              url: stored.url,
+              contentType: stored.contentType,
+              size: stored.size
+            }
+          })
+        )
+      )
+      .subscribe({
+        next: () => this.uploading.set(false),
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to upload attachment');
+          this.uploading.set(false);
+        }
+      });
+  }
+
+  removeAttachment(a: Attachment): void {
+    const ok = confirm(`Remove "${a.name}"?`);
+    if (!ok) return;
+
+    this.removingId.set(a.id);
+    this.error.set(null);
+
+    this.gql
+      .request(RemoveProductAttachmentDocument, { input: { id: a.id } })
+      .pipe(switchMap(() => this.files.remove(a.url)))
+      .subscribe({
+        next: () => this.removingId.set(null),
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to remove attachment');
+          this.removingId.set(null);
+        }
+      });
+  }
+
+  unitNames(): string[] {
+    const names = this.catalogueUnits().map((u) => u.name);
+    const current = [this.product()?.unitOfMeasure ?? '', ...(this.product()?.units ?? []).map((u) => u.unit)];
+    return [...new Set([...names, ...current.filter((n) => n)])];
+  }
+
+  formUnitChoices(): string[] {
+    const base = this.unitsForm.controls.baseUnit.value ?? '';
+    const packs = this.packRows().filter((r) => r.unit && r.unit !== base).map((r) => r.unit);
+    return base ? [base, ...packs] : packs;
+  }
+
+  openUnits(): void {
+    const p = this.product();
+    if (!p) return;
+
+    this.formError.set(null);
+    this.unitsForm.reset({
+      baseUnit: p.unitOfMeasure ?? '',
+      purchaseUnit: p.purchaseUnit ?? '',
+      saleUnit: p.saleUnit ?? ''
+    });
+    this.packRows.set(p.units.filter((u) => u.unit !== p.unitOfMeasure).map((u) => ({ unit: u.unit, factor: u.factor })));
+    this.unitsOpen.set(true);
+
+    this.gql.request(UnitsDocument).subscribe({
+      next: (res) => this.catalogueUnits.set(res.units.filter((u) => u.active)),
+      error: () => this.catalogueUnits.set([])
+    });
+  }
+
+  closeUnits(): void {
+    this.unitsOpen.set(false);
+  }
+
+  addPackRow(): void {
+    this.packRows.set([...this.packRows(), { unit: '', factor: 10 }]);
+  }
+
+  updatePackRow(index: number, changes: Partial<UnitFactor>): void {
+    this.packRows.set(this.packRows().map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  }
+
+  removePackRow(index: number): void {
+    this.packRows.set(this.packRows().filter((_, i) => i !== index));
+  }
+
+  saveUnits(): void {
+    const p = this.product();
+    this.unitsForm.markAllAsTouched();
+    if (!p || this.unitsForm.invalid) return;
+
+    const raw = this.unitsForm.getRawValue();
+    const baseUnit = raw.baseUnit ?? '';
+    const rows = this.packRows();
+    const seen = new Set([baseUnit]);
+    for (const r of rows) {
+      if (!r.unit) {
+        this.formError.set('Choose a unit for every pack size');
+        return;
+      }
+      if (seen.has(r.unit)) {
+        this.formError.set(`${r.unit} is listed more than once`);
+        return;
+      }
+      if (!Number.isInteger(r.factor) || r.factor < 2) {
+        this.formError.set(`1 ${r.unit} must hold a whole number of ${baseUnit} greater than 1`);
+        return;
+      }
+      seen.add(r.unit);
+    }
+
+    const choices = this.formUnitChoices();
+    const pick = (unit: string | null | undefined) => (unit && choices.includes(unit) ? unit : null);
+
+    this.saving.set(true);
+    this.formError.set(null);
+
+    this.gql
+      .request(SetProductUnitsDocument, {
+        input: {
+          productId: p.id,
+          baseUnit,
+          units: rows.map((r) => ({ unit: r.unit, factor: r.factor })),
+          purchaseUnit: pick(raw.purchaseUnit),
+          saleUnit: pick(raw.saleUnit)
+        },
+        withCosts: this.perm.canViewCosts()
+      })
+      .subscribe({
+        next: () => {
+          this.saving.set(false);
+          this.closeUnits();
+        },
+        error: (e: unknown) => {
+          this.formError.set(e instanceof Error ? e.message : 'Failed to save units');
+          this.saving.set(false);
+        }
+      });
+  }
+
+  marginLabel(margin: number | null): string {
+    return margin === null ? '-' : `${margin.toFixed(1)}%`;
+  }
+
+  priceStatusClass(status: PriceChangeStatus): string {
+    return PRICE_STATUS_CLASSES[status];
+  }
+
+  minScheduleDate(): string {
+    return addDays(toIsoDate(new Date()), 1);
+  }
+
+  openPrice(): void {
+    const p = this.product();
+    this.formError.set(null);
+    this.priceForm.reset({
+      effectiveFrom: this.minScheduleDate(),
+      sellingPrice: p?.sellingPrice ?? null,
+      buyingPrice: p?.buyingPrice ?? null
+    });
+    this.priceOpen.set(true);
+  }
+
+  closePrice(): void {
+    this.priceOpen.set(false);
+  }
+
+  savePrice(): void {
+    const p = this.product();
+    this.priceForm.markAllAsTouched();
+    if (!p || this.priceForm.invalid) return;
+
+    const raw = this.priceForm.getRawValue();
+    const effectiveFrom = raw.effectiveFrom ?? '';
+    if (effectiveFrom < this.minScheduleDate()) {
+      this.formError.set('Choose a date after today');
+      return;
+    }
+
+    const sellingPrice = raw.sellingPrice === null ? null : Number(raw.sellingPrice);
+    const buyingPrice = this.perm.canViewCosts() && raw.buyingPrice !== null ? Number(raw.buyingPrice) : null;
+    const sellingChanged = sellingPrice !== null && sellingPrice !== p.sellingPrice;
+    const buyingChanged = buyingPrice !== null && buyingPrice !== p.buyingPrice;
+    if (!sellingChanged && !buyingChanged) {
+      this.formError.set('Change at least one price');
+      return;
+    }
+
+    this.saving.set(true);
+    this.formError.set(null);
+
+    this.gql
+      .request(SchedulePriceChangeDocument, {
+        input: {
+          productId: p.id,
+          effectiveFrom,
+          sellingPrice: sellingChanged ? sellingPrice : null,
+          buyingPrice: buyingChanged ? buyingPrice : null
+        },
+        withCosts: this.perm.canViewCosts()
+      })
+      .subscribe({
+        next: () => {
+          this.saving.set(false);
+          this.closePrice();
+        },
+        error: (e: unknown) => {
+          this.formError.set(e instanceof Error ? e.message : 'Failed to schedule price change');
+          this.saving.set(false);
+        }
+      });
+  }
+
+  cancelPriceChange(entry: PriceEntry): void {
+    const ok = confirm(`Cancel the price change scheduled for ${entry.effectiveFrom}?`);
+    if (!ok) return;
+
+    this.cancellingId.set(entry.id);
+    this.error.set(null);
+
+    this.gql
+      .request(CancelPriceChangeDocument, { input: { id: entry.id }, withCosts: this.perm.canViewCosts() })
+      .subscribe({
+        next: () => this.cancellingId.set(null),
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to cancel price change');
+          this.cancellingId.set(null);
+        }
+      });
+  }
+
+  openEdit(b: Batch): void {
+    this.formError.set(null);
+    this.editingBatch.set(b);
+    this.editForm.reset({ expiryDate: b.expiryDate, costPrice: b.costPrice });
+    this.editOpen.set(true);
+  }
+
+  closeEdit(): void {
+    this.editOpen.set(false);
+    this.editingBatch.set(null);
+  }
+
+  saveEdit(): void {
+    const b = this.editingBatch();
+    if (!b || this.editForm.invalid) return;
+
+    const raw = this.editForm.getRawValue();
+    this.saving.set(true);
+    this.formError.set(null);
+
+    this.gql
+      .request(UpdateBatchDocument, {
+        input: {
+          batchId: b.id,
+          expiryDate: raw.expiryDate ?? b.expiryDate,
+          ...(this.perm.canViewCosts() ? { costPrice: Number(raw.costPrice ?? 0) } : {})
+        },
+        withCosts: this.perm.canViewCosts()
+      })
+      .subscribe({
+        next: () => {
+          this.saving.set(false);
+          this.closeEdit();
+        },
+        error: (e: unknown) => {
+          this.formError.set(e instanceof Error ? e.message : 'Failed to update batch');
+          this.saving.set(false);
+        }
+      });
+  }
+
+  openCreate(): void {
+    this.formError.set(null);
+    this.createForm.reset({
+      batchNumber: '',
+      expiryDate: '',
+      costPrice: this.product()?.buyingPrice ?? 0,
+      quantityReceived: 0,
+      location: 'MAIN'
+    });
+    this.createOpen.set(true);
+  }
+
+  closeCreate(): void {
+    this.createOpen.set(false);
+  }
+
+  saveCreate(): void {
+    const p = this.product();
+    this.createForm.markAllAsTouched();
+    if (!p || this.createForm.invalid) return;
+
+    const raw = this.createForm.getRawValue();
+    const location = (raw.location ?? '').trim();
+    this.saving.set(true);
+    this.formError.set(null);
+
+    this.gql
+      .request(CreateBatchDocument, {
+        input: {
+          productId: p.id,
+          batchNumber: (raw.batchNumber ?? '').trim(),
+          expiryDate: raw.expiryDate ?? '',
+          ...(this.perm.canViewCosts() ? { costPrice: Number(raw.costPrice ?? 0) } : {}),
+          quantityReceived: Number(raw.quantityReceived ?? 0),
+          location: location.length ? location : null
+        },
+        withCosts: this.perm.canViewCosts()
+      })
+      .subscribe({
+        next: () => {
+          this.saving.set(false);
+          this.closeCreate();
+        },
+        error: (e: unknown) => {
+          this.formError.set(e instanceof Error ? e.message : 'Failed to add batch');
+          this.saving.set(false);
+        }
+      });
+  }
+
+  openStatus(b: Batch): void {
+    this.formError.set(null);
+    this.statusBatch.set(b);
+    this.statusForm.reset({ status: b.status === 'ACTIVE' ? 'QUARANTINED' : 'ACTIVE', reason: '' });
+    this.statusOpen.set(true);
+  }
+
+  closeStatus(): void {
+    this.statusOpen.set(false);
+    this.statusBatch.set(null);
+  }
+
+  saveStatus(): void {
+    const b = this.statusBatch();
+    if (!b || this.statusForm.invalid) return;
+
+    const raw = this.statusForm.getRawValue();
+    const reason = (raw.reason ?? '').trim();
+    this.saving.set(true);
+    this.formError.set(null);
+
+    this.gql
+      .request(SetBatchStatusDocument, {
+        input: {
+          batchId: b.id,
+          status: raw.status ?? 'ACTIVE',
+          reason: reason.length ? reason : null
+        },
+        withCosts: this.perm.canViewCosts()
+      })
+      .subscribe({
+        next: () => {
+          this.saving.set(false);
+          this.closeStatus();
+        },
+        error: (e: unknown) => {
+          this.formError.set(e instanceof Error ? e.message : 'Failed to update batch status');
+          this.saving.set(false);
+        }
+      });
+  }
+}
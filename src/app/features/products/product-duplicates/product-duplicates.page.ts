@@ -0,0 +1,212 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, inject, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+
+import { GraphqlService } from '../../../core/graphql/graphql.service';
+import {
+  DuplicateCandidatesDocument,
+  type DuplicateCandidatesQuery,
+  MergeProductsDocument
+} from '../../../core/graphql/generated/graphql';
+import { CanPipe } from '../../../shared/pipes/can.pipe';
+import { FileUrlPipe } from '../../../shared/pipes/file-url.pipe';
+import { MoneyPipe } from '../../../shared/pipes/money.pipe';
+import { CanDirective } from '../../../shared/directives/can.directive';
+import { PermissionService } from '../../../shared/services/permission.service';
+import { type DuplicateMatch, type DuplicateReason, findDuplicates } from './product-duplicates.utils';
+
+type Candidate = DuplicateCandidatesQuery['products'][number];
+
+type Match = DuplicateMatch<Candidate>;
+
+type CompareField = keyof Omit<Candidate, '__typename' | 'id' | 'imageUrl' | 'mergedIntoId'>;
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  barcode: 'Same barcode',
+  name: 'Similar name',
+  brand: 'Same brand',
+  variant: 'Same variant'
+};
+
+const THRESHOLDS = [
+  { value: 0.7, label: 'Loose (70%)' },
+  { value: 0.8, label: 'Normal (80%)' },
+  { value: 0.9, label: 'Strict (90%)' }
+];
+
+@Component({
+  selector: 'cis-product-duplicates-page',
+  standalone: true,
+  imports: [CommonModule, RouterLink, MoneyPipe, FileUrlPipe, CanPipe, CanDirective],
+  templateUrl: './product-duplicates.page.html',
+  styleUrl: './product-duplicates.page.scss'
+})
+export class ProductDuplicatesPage {
+  private readonly perm = inject(PermissionService);
+
+  readonly thresholds = THRESHOLDS;
+
+  loading = signal(false);
+  saving = signal(false);
+  error = signal<string | null>(null);
+
+  products = signal<Candidate[]>([]);
+  includeInactive = signal(false);
+  threshold = signal(0.8);
+  dismissed = signal<string[]>([]);
+
+  selectedKey = signal<string | null>(null);
+  survivorId = signal<string | null>(null);
+  mergeDialogOpen = signal(false);
+
+  toastMessage = signal<string | null>(null);
+  toastVariant = signal<'success' | 'error'>('success');
+
+  matches = computed(() => {
+    const dismissed = new Set(this.dismissed());
+    const products = this.products().filter((p) => !p.mergedIntoId && (p.active || this.includeInactive()));
+    return findDuplicates(products, this.threshold()).filter((m) => !dismissed.has(this.pairKey(m)));
+  });
+
+  selected = computed(() => {
+    const matches = this.matches();
+    return matches.find((m) => this.pairKey(m) === this.selectedKey()) ?? matches[0] ?? null;
+  });
+
+  survivor = computed(() => {
+    const m = this.selected();
+    if (!m) return null;
+    return [m.a, m.b].find((p) => p.id === this.survivorId()) ?? this.suggestedSurvivor(m);
+  });
+
+  merged = computed(() => {
+    const m = this.selected();
+    const survivor = this.survivor();
+    if (!m || !survivor) return null;
+    return m.a.id === survivor.id ? m.b : m.a;
+  });
+
+  constructor(private readonly gql: GraphqlService) {
+    this.perm.load();
+    this.load();
+  }
+
+  load(): void {
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql.request(DuplicateCandidatesDocument, { filter: null, withCosts: this.perm.canViewCosts() }).subscribe({
+      next: (res) => {
+        this.products.set(res.products);
+        this.loading.set(false);
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to load products');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  pairKey(m: Match): string {
+    return [m.a.id, m.b.id].sort().join(':');
+  }
+
+  reasonLabel(reason: DuplicateReason): string {
+    return REASON_LABELS[reason];
+  }
+
+  scoreLabel(m: Match): string {
+    return `${Math.round(m.score * 100)}%`;
+  }
+
+  select(m: Match): void {
+    this.selectedKey.set(this.pairKey(m));
+    this.survivorId.set(null);
+  }
+
+  setThreshold(value: string): void {
+    this.threshold.set(Number(value));
+  }
+
+  differs(field: CompareField): boolean {
+    const m = this.selected();
+    if (!m) return false;
+    return (m.a[field] ?? '') !== (m.b[field] ?? '');
+  }
+
+  dismiss(m: Match): void {
+    this.dismissed.update((list) => [...list, this.pairKey(m)]);
+    this.survivorId.set(null);
+  }
+
+  openMerge(): void {
+    if (!this.survivor() || !this.merged()) return;
+    this.error.set(null);
+    this.mergeDialogOpen.set(true);
+  }
+
+  closeMerge(): void {
+    this.mergeDialogOpen.set(false);
+  }
+
+  confirmMerge(): void {
+    const survivor = this.survivor();
+    const merged = this.merged();
+    if (!survivor || !merged) return;
+
+    this.saving.set(true);
+    this.error.set(null);
+
+    this.gql
+      .request(MergeProductsDocument, {
+        input: { survivorId: survivor.id, mergedIds: [merged.id] },
+        withCosts: this.perm.canViewCosts()
+      })
+      .subscribe({
+        next: (res) => {
+          const result = res.mergeProducts;
+          this.products.update((list) =>
+            list
+              .filter((p) => !result.mergedIds.includes(p.id))
+              .map((p) =>
+                p.id === result.survivor.id
+                  ? { ...p, stockOnHand: result.survivor.stockOnHand, active: result.survivor.active }
+                  : p
+              )
+          );
+          this.selectedKey.set(null);
+          this.survivorId.set(null);
+          this.mergeDialogOpen.set(false);
+          this.showToast(
+            `Merged into ${result.survivor.name}: ${result.movedBatches} batches, ${result.movedSalesLines} sales lines and ${result.movedPurchaseLines} purchase lines moved`,
+            'success'
+          );
+          this.saving.set(false);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to merge products');
+          this.showToast('Failed to merge products', 'error');
+          this.saving.set(false);
+        }
+      });
+  }
+
+  dismissToast(): void {
+    this.toastMessage.set(null);
+  }
+
+  private suggestedSurvivor(m: Match): Candidate {
+    if (m.a.active !== m.b.active) return m.a.active ? m.a : m.b;
+    return m.b.stockOnHand > m.a.stockOnHand ? m.b : m.a;
+  }
+
+  private showToast(message: string, variant: 'success' | 'error'): void {
+    this.toastVariant.set(variant);
+    this.toastMessage.set(message);
+    window.setTimeout(() => {
+      if (this.toastMessage() === message) {
+        this.toastMessage.set(null);
+      }
+    }, 2500);
+  }
+}
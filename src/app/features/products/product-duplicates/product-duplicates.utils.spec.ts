@@ -0,0 +1,50 @@
+import { compareProducts, findDuplicates, normalizeText, similarity } from './product-duplicates.utils';
+
+const products = [
+  { id: '1', name: 'Panadol Extra 500mg', brand: 'GSK', variant: 'Tablets', barcode: '600100' },
+  { id: '2', name: 'Panadole Extra 500 mg', brand: 'G.S.K', variant: 'Tablet', barcode: null },
+  { id: '3', name: 'Panadol Extra 1000mg', brand: 'GSK', variant: 'Tablets', barcode: null },
+  { id: '4', name: 'Ibuprofen 200mg', brand: 'Advil', variant: null, barcode: '600100' }
+];
+
+describe('normalizeText', () => {
+  it('drops accents, punctuation and splits strengths from units', () => {
+    expect(normalizeText('  Crème Énergie-500mg ')).toBe('creme energie 500 mg');
+    expect(normalizeText('G.S.K')).toBe('gsk');
+    expect(normalizeText(null)).toBe('');
+  });
+});
+
+describe('similarity', () => {
+  it('ignores word order and case', () => {
+    expect(similarity('Extra Panadol', 'panadol EXTRA')).toBe(1);
+  });
+
+  it('scores small typos close to one', () => {
+    expect(similarity('Panadol', 'Panadole')).toBeGreaterThan(0.9);
+    expect(similarity('Panadol', 'Ibuprofen')).toBeLessThan(0.2);
+  });
+
+  it('returns zero when one side is empty', () => {
+    expect(similarity('Panadol', '')).toBe(0);
+  });
+});
+
+describe('compareProducts', () => {
+  it('penalises products whose strengths differ', () => {
+    expect(compareProducts(products[0], products[2]).score).toBeLessThan(0.8);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('pairs fuzzy name matches and exact barcodes, best first', () => {
+    expect(findDuplicates(products).map((m) => [m.a.id, m.b.id, m.reasons])).toEqual([
+      ['1', '4', ['barcode']],
+      ['1', '2', ['name', 'brand', 'variant']]
+    ]);
+  });
+
+  it('respects the threshold', () => {
+    expect(findDuplicates(products, 0.99).map((m) => m.b.id)).toEqual(['4']);
+  });
+});
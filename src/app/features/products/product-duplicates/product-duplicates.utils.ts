@@ -0,0 +1,124 @@
+export type DuplicateCandidate = {
+  id: string;
+  name: string;
+  barcode?: string | null;
+  brand?: string | null;
+  variant?: string | null;
+};
+
+export type DuplicateReason = 'barcode' | 'name' | 'brand' | 'variant';
+
+export type DuplicateMatch<T extends DuplicateCandidate> = {
+  a: T;
+  b: T;
+  score: number;
+  reasons: DuplicateReason[];
+};
+
+const WEIGHTS = { name: 0.6, brand: 0.2, variant: 0.2 };
+const FIELD_MATCH = 0.8;
+const STRENGTH_PENALTY = 0.5;
+const BLOCK_LIMIT = 200;
+
+export function normalizeText(value: string | null | undefined): string {
+  return (value ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/([a-z])['.’](?=[a-z])/g, '$1')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/(\d)(?=[a-z])/g, '$1 ')
+    .replace(/([a-z])(?=\d)/g, '$1 ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const pair = value.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function similarity(a: string | null | undefined, b: string | null | undefined): number {
+  const x = normalizeText(a).split(' ').sort().join(' ');
+  const y = normalizeText(b).split(' ').sort().join(' ');
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const left = bigrams(x);
+  const right = bigrams(y);
+  let shared = 0;
+  for (const [pair, count] of left) shared += Math.min(count, right.get(pair) ?? 0);
+  return (2 * shared) / (x.length - 1 + (y.length - 1));
+}
+
+function strengths(p: DuplicateCandidate): string {
+  return normalizeText(`${p.name} ${p.variant ?? ''}`)
+    .split(' ')
+    .filter((t) => /^\d+$/.test(t))
+    .sort()
+    .join(' ');
+}
+
+function blockKeys(p: DuplicateCandidate): string[] {
+  const keys = normalizeText(p.name)
+    .split(' ')
+    .filter((t) => t.length >= 3 && /[a-z]/.test(t))
+    .map((t) => `n:${t.slice(0, 4)}`);
+  const barcode = p.barcode?.trim();
+  if (barcode) keys.push(`b:${barcode}`);
+  return [...new Set(keys)];
+}
+
+export function compareProducts<T extends DuplicateCandidate>(a: T, b: T): DuplicateMatch<T> {
+  const reasons: DuplicateReason[] = [];
+  const barcodeMatch = !!a.barcode?.trim() && a.barcode.trim() === b.barcode?.trim();
+  if (barcodeMatch) reasons.push('barcode');
+
+  let total = 0;
+  let weight = 0;
+  for (const field of ['name', 'brand', 'variant'] as const) {
+    if (field !== 'name' && (!normalizeText(a[field]) || !normalizeText(b[field]))) continue;
+    const s = similarity(a[field], b[field]);
+    if (s >= FIELD_MATCH) reasons.push(field);
+    total += s * WEIGHTS[field];
+    weight += WEIGHTS[field];
+  }
+
+  let score = total / weight;
+  const left = strengths(a);
+  const right = strengths(b);
+  if (left && right && left !== right) score *= STRENGTH_PENALTY;
+
+  return { a, b, score: barcodeMatch ? 1 : score, reasons };
+}
+
+export function findDuplicates<T extends DuplicateCandidate>(products: T[], threshold = 0.8): DuplicateMatch<T>[] {
+  const blocks = new Map<string, number[]>();
+  products.forEach((p, i) => {
+    for (const key of blockKeys(p)) blocks.set(key, [...(blocks.get(key) ?? []), i]);
+  });
+
+  const seen = new Set<string>();
+  const matches: DuplicateMatch<T>[] = [];
+  for (const [key, members] of blocks) {
+    if (members.length < 2 || (members.length > BLOCK_LIMIT && !key.startsWith('b:'))) continue;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const pairKey = `${members[i]}:${members[j]}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const match = compareProducts(products[members[i]], products[members[j]]);
+        if (match.score >= threshold) matches.push(match);
+      }
+    }
+  }
+
+  return matches.sort((x, y) => y.score - x.score || x.a.name.localeCompare(y.a.name));
+}
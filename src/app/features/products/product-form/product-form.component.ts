@@ -2,12 +2,19 @@ import { CommonModule } from '@angular/common';
 import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges, inject } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 
+import { ImagePickerComponent } from '../../../shared/ui/image-picker/image-picker.component';
+
 type Category = {
   id: string;
   name: string;
   active: boolean;
 };
 
+type Unit = {
+  id: string;
+  name: string;
+};
+
 export type ProductFormValue = {
   sku: string;
   barcode: string;
@@ -15,6 +22,7 @@ export type ProductFormValue = {
   brand: string;
   category: string;
   variant: string;
+  imageUrl: string | null;
   unitOfMeasure: string;
   buyingPrice: number | null;
   sellingPrice: number | null;
@@ -26,18 +34,21 @@ export type ProductFormValue = {
 @Component({
   selector: 'cis-product-form',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, ImagePickerComponent],
   templateUrl: './product-form.component.html',
   styleUrl: './product-form.component.scss'
 })
 export class ProductFormComponent implements OnChanges {
   @Input({ required: true }) categories: Category[] = [];
+  @Input() units: Unit[] = [];
   @Input() loading = false;
   @Input() error: string | null = null;
   @Input() open = false;
+  @Input() showCosts = true;
 
   @Output() submitted = new EventEmitter<ProductFormValue>();
   @Output() cancel = new EventEmitter<void>();
+  @Output() imageChange = new EventEmitter<string | null>();
 
   private readonly fb = inject(FormBuilder);
 
@@ -48,6 +59,7 @@ export class ProductFormComponent implements OnChanges {
     brand: [''],
     category: [''],
     variant: [''],
+    imageUrl: [null as string | null],
     unitOfMeasure: [''],
     buyingPrice: [null as number | null],
     sellingPrice: [null as number | null],
@@ -66,6 +78,7 @@ export class ProductFormComponent implements OnChanges {
         brand: '',
         category: '',
         variant: '',
+        imageUrl: null,
         unitOfMeasure: '',
         buyingPrice: null,
         sellingPrice: null,
@@ -76,6 +89,11 @@ export class ProductFormComponent implements OnChanges {
     }
   }
 
+  setImage(url: string | null): void {
+    this.form.controls.imageUrl.setValue(url);
+    this.imageChange.emit(url);
+  }
+
   submit(): void {
     if (this.form.invalid) return;
     this.submitted.emit(this.form.getRawValue() as ProductFormValue);
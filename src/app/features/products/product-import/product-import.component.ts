@@ -0,0 +1,319 @@
+import { CommonModule } from '@angular/common';
+import {
+  Component,
+  DestroyRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  Output,
+  SimpleChanges,
+  computed,
+  inject,
+  signal
+} from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { type Subscription, catchError, concatMap, from, map, of } from 'rxjs';
+
+import { GraphqlService } from '../../../core/graphql/graphql.service';
+import {
+  type ImportProductInput,
+  ImportProductsDocument,
+  type ImportProductsMutation,
+  ProductKeysDocument
+} from '../../../core/graphql/generated/graphql';
+import { downloadCsv, parseCsv, toCsv } from '../../../shared/utils/csv.utils';
+import { readXlsx } from '../../../shared/utils/xlsx.utils';
+import {
+  type ColumnMapping,
+  type ImportColumn,
+  type ImportContext,
+  type ImportField,
+  type ImportRow,
+  IMPORT_COLUMNS,
+  guessMapping,
+  validateRows
+} from './product-import.utils';
+
+type Category = {
+  id: string;
+  name: string;
+  active: boolean;
+};
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+type ImportResult = ImportProductsMutation['importProducts'][number];
+
+type ImportFailure = {
+  line: number;
+  cells: string[];
+  error: string;
+};
+
+const CHUNK_SIZE = 25;
+const PREVIEW_LIMIT = 200;
+
+@Component({
+  selector: 'cis-product-import',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './product-import.component.html',
+  styleUrl: './product-import.component.scss'
+})
+export class ProductImportComponent implements OnChanges {
+  @Input({ required: true }) categories: Category[] = [];
+  @Input() open = false;
+  @Input() showCosts = true;
+
+  @Output() imported = new EventEmitter<number>();
+  @Output() close = new EventEmitter<void>();
+
+  private readonly gql = inject(GraphqlService);
+  private readonly destroyRef = inject(DestroyRef);
+  private importSub?: Subscription;
+
+  step = signal<Step>('upload');
+  loading = signal(false);
+  error = signal<string | null>(null);
+
+  fileName = signal('');
+  headers = signal<string[]>([]);
+  dataRows = signal<string[][]>([]);
+  mapping = signal<ColumnMapping>({});
+  context = signal<ImportContext>({ categories: [], skus: [], barcodes: [] });
+  errorsOnly = signal(false);
+
+  processed = signal(0);
+  created = signal(0);
+  failures = signal<ImportFailure[]>([]);
+  stopped = signal(false);
+
+  columns = computed(() => IMPORT_COLUMNS.filter((c) => this.showCosts || c.field !== 'buyingPrice'));
+
+  rows = computed(() => validateRows(this.dataRows(), this.mapping(), this.context()));
+  validRows = computed(() => this.rows().filter((r) => !r.errors.length));
+  invalidRows = computed(() => this.rows().filter((r) => r.errors.length));
+
+  previewRows = computed(() => (this.errorsOnly() ? this.invalidRows() : this.rows()).slice(0, PREVIEW_LIMIT));
+  previewLimit = PREVIEW_LIMIT;
+
+  missingRequired = computed(() =>
+    this.columns()
+      .filter((c) => c.required && this.mapping()[c.field] === undefined)
+      .map((c) => c.label)
+  );
+
+  progress = computed(() => {
+    const total = this.validRows().length;
+    return total ? Math.round((this.processed() / total) * 100) : 0;
+  });
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['open']?.currentValue === true) {
+      this.reset();
+    }
+  }
+
+  async onFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.error.set(null);
+    this.loading.set(true);
+
+    try {
+      const table = /\.xlsx$/i.test(file.name) ? await readXlsx(file) : parseCsv(await file.text());
+      if (table.length < 2) throw new Error('The file has no product rows');
+
+      const headers = table[0].map((h) => h.trim());
+      const mapping = guessMapping(headers);
+      if (!this.showCosts) delete mapping.buyingPrice;
+
+      this.fileName.set(file.name);
+      this.headers.set(headers);
+      this.dataRows.set(table.slice(1));
+      this.mapping.set(mapping);
+      this.step.set('map');
+    } catch (e: unknown) {
+      this.error.set(e instanceof Error ? e.message : 'Failed to read file');
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  setMapping(field: ImportField, value: string): void {
+    this.mapping.update((m) => {
+      const next = { ...m };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  }
+
+  mappedIndex(column: ImportColumn): string {
+    const index = this.mapping()[column.field];
+    return index === undefined ? '' : String(index);
+  }
+
+  sample(index: number): string {
+    return this.dataRows().find((r) => String(r[index] ?? '').trim())?.[index] ?? '';
+  }
+
+  preview(): void {
+    if (this.missingRequired().length) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql.request(ProductKeysDocument).subscribe({
+      next: (res) => {
+        this.context.set({
+          categories: this.categories.filter((c) => c.active).map((c) => c.name),
+          skus: res.products.map((p) => p.sku),
+          barcodes: res.products.map((p) => p.barcode ?? '')
+        });
+        this.errorsOnly.set(false);
+        this.step.set('preview');
+        this.loading.set(false);
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to load existing products');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  back(): void {
+    this.error.set(null);
+    this.step.set(this.step() === 'preview' ? 'map' : 'upload');
+  }
+
+  startImport(): void {
+    const rows = this.validRows();
+    if (!rows.length) return;
+
+    const byLine = new Map(rows.map((r) => [r.line, r]));
+    const chunks: ImportProductInput[][] = [];
+    for (let i = 0; i < rows.length; i += CHUNK_SIZE) {
+      chunks.push(rows.slice(i, i + CHUNK_SIZE).map((r) => this.toInput(r)));
+    }
+
+    this.processed.set(0);
+    this.created.set(0);
+    this.failures.set([]);
+    this.stopped.set(false);
+    this.error.set(null);
+    this.step.set('importing');
+
+    this.importSub = from(chunks)
+      .pipe(
+        concatMap((chunk) =>
+          this.gql.request(ImportProductsDocument, { input: chunk }).pipe(
+            map((res) => res.importProducts),
+            catchError((e: unknown) => {
+              const message = e instanceof Error ? e.message : 'Import failed';
+              return of(chunk.map((input): ImportResult => ({ row: input.row, product: null, error: message })));
+            })
+          )
+        ),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe({
+        next: (results) => {
+          const failed = results.filter((r) => !r.product);
+          this.processed.update((n) => n + results.length);
+          this.created.update((n) => n + results.length - failed.length);
+          this.failures.update((list) => [
+            ...list,
+            ...failed.map((r) => ({
+              line: r.row,
+              cells: byLine.get(r.row)?.cells ?? [],
+              error: r.error || 'Not created'
+            }))
+          ]);
+        },
+        complete: () => this.finish()
+      });
+  }
+
+  stop(): void {
+    this.importSub?.unsubscribe();
+    this.stopped.set(true);
+    this.finish();
+  }
+
+  downloadErrors(): void {
+    const failures: ImportFailure[] = [
+      ...this.invalidRows().map((r) => ({ line: r.line, cells: r.cells, error: r.errors.join('; ') })),
+      ...this.failures()
+    ].sort((a, b) => a.line - b.line);
+
+    const headers = this.headers();
+    const csv = toCsv(failures, [
+      { header: 'Line', value: (f: ImportFailure) => f.line },
+      ...headers.map((header, i) => ({ header, value: (f: ImportFailure) => f.cells[i] ?? '' })),
+      { header: 'Error', value: (f: ImportFailure) => f.error }
+    ]);
+    downloadCsv(`${this.fileName().replace(/\.[^.]+$/, '')}-errors`, csv);
+  }
+
+  errorCount(): number {
+    return this.invalidRows().length + this.failures().length;
+  }
+
+  cancel(): void {
+    if (this.step() === 'importing') return;
+    this.close.emit();
+  }
+
+  private finish(): void {
+    this.step.set('done');
+    if (this.created()) this.imported.emit(this.created());
+  }
+
+  private toInput(row: ImportRow): ImportProductInput {
+    const v = row.value;
+    return {
+      row: row.line,
+      product: {
+        sku: v.sku,
+        barcode: v.barcode,
+        name: v.name,
+        brand: v.brand,
+        category: v.category,
+        variant: v.variant,
+        unitOfMeasure: v.unitOfMeasure,
+        ...(this.showCosts ? { buyingPrice: v.buyingPrice } : {}),
+        sellingPrice: v.sellingPrice
+      },
+      batch: v.batchNumber
+        ? {
+            batchNumber: v.batchNumber,
+            expiryDate: v.expiryDate,
+            ...(this.showCosts ? { costPrice: v.buyingPrice ?? 0 } : {}),
+            quantityReceived: 0,
+            location: v.location || null
+          }
+        : null
+    };
+  }
+
+  private reset(): void {
+    this.importSub?.unsubscribe();
+    this.step.set('upload');
+    this.loading.set(false);
+    this.error.set(null);
+    this.fileName.set('');
+    this.headers.set([]);
+    this.dataRows.set([]);
+    this.mapping.set({});
+    this.context.set({ categories: [], skus: [], barcodes: [] });
+    this.errorsOnly.set(false);
+    this.processed.set(0);
+    this.created.set(0);
+    this.failures.set([]);
+    this.stopped.set(false);
+  }
+}
@@ -0,0 +1,86 @@
+import { guessMapping, type ImportContext, validateRows } from './product-import.utils';
+
+const headers = ['SKU', 'Product Name', 'Barcode', 'Category', 'Selling Price', 'Batch No', 'Expiry'];
+
+const context: ImportContext = {
+  categories: ['Analgesics'],
+  skus: ['PAN-500'],
+  barcodes: ['600100']
+};
+
+describe('guessMapping', () => {
+  it('matches headers to fields by common names', () => {
+    expect(guessMapping(headers)).toEqual({
+      sku: 0,
+      name: 1,
+      barcode: 2,
+      category: 3,
+      sellingPrice: 4,
+      batchNumber: 5,
+      expiryDate: 6
+    });
+  });
+
+  it('leaves unknown headers unmapped', () => {
+    expect(guessMapping(['Notes', 'sku'])).toEqual({ sku: 1 });
+  });
+});
+
+describe('validateRows', () => {
+  const mapping = guessMapping(headers);
+
+  it('accepts a complete row and normalizes the category name', () => {
+    const [row] = validateRows([['IBU-200', 'Ibuprofen', '', 'analgesics', '4.50', 'B1', '2027-01-31']], mapping, context);
+    expect(row.errors).toEqual([]);
+    expect(row.line).toBe(2);
+    expect(row.value.category).toBe('Analgesics');
+    expect(row.value.sellingPrice).toBe(4.5);
+    expect(row.value.expiryDate).toBe('2027-01-31');
+  });
+
+  it('reports SKUs and barcodes that already exist or repeat in the file', () => {
+    const rows = validateRows(
+      [
+        ['PAN-500', 'Panadol', '', '', '', '', ''],
+        ['IBU-200', 'Ibuprofen', '600100', '', '', '', ''],
+        ['ibu-200', 'Ibuprofen 2', '', '', '', '', '']
+      ],
+      mapping,
+      context
+    );
+    expect(rows[0].errors).toEqual(['SKU PAN-500 already exists']);
+    expect(rows[1].errors).toEqual(['Barcode 600100 already exists']);
+    expect(rows[2].errors).toEqual(['Duplicate SKU ibu-200 (line 3)']);
+  });
+
+  it('reports unknown categories, bad prices and incomplete batches', () => {
+    const [row] = validateRows([['X-1', 'Thing', '', 'Toys', 'abc', 'B1', '']], mapping, context);
+    expect(row.errors).toEqual([
+      'Unknown category Toys',
+      'Selling price must be a positive number',
+      'Expiry date is required for a batch'
+    ]);
+  });
+
+  it('converts spreadsheet date serials', () => {
+    const [row] = validateRows([['X-2', 'Thing', '', '', '', 'B1', '46023']], mapping, context);
+    expect(row.value.expiryDate).toBe('2026-01-01');
+  });
+
+  it('rejects impossible calendar dates and out-of-range serials as row errors', () => {
+    const rows = validateRows(
+      [
+        ['X-3', 'Thing', '', '', '', 'B1', '2024-02-31'],
+        ['X-4', 'Thing', '', '', '', 'B1', '5012345678900'],
+        ['X-5', 'Thing', '', '', '', 'B1', '0']
+      ],
+      mapping,
+      context
+    );
+    expect(rows.map((r) => r.errors)).toEqual([
+      ['Expiry date must be YYYY-MM-DD'],
+      ['Expiry date must be YYYY-MM-DD'],
+      ['Expiry date must be YYYY-MM-DD']
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { ProductFormValue } from '../product-form/product-form.component';
+
+export type ImportField = keyof ProductFormValue;
+
+export type ImportColumn = {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+};
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportContext = {
+  categories: string[];
+  skus: string[];
+  barcodes: string[];
+};
+
+export type ImportRow = {
+  line: number;
+  cells: string[];
+  value: ProductFormValue;
+  errors: string[];
+};
+
+export const IMPORT_COLUMNS: ImportColumn[] = [
+  { field: 'sku', label: 'SKU', required: true, aliases: ['sku', 'code', 'item code', 'product code'] },
+  { field: 'barcode', label: 'Barcode', aliases: ['barcode', 'ean', 'upc'] },
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'product', 'product name', 'item name'] },
+  { field: 'brand', label: 'Brand', aliases: ['brand', 'manufacturer'] },
+  { field: 'category', label: 'Category', aliases: ['category'] },
+  { field: 'variant', label: 'Variant', aliases: ['variant', 'strength', 'size'] },
+  { field: 'unitOfMeasure', label: 'Unit of measure', aliases: ['unit', 'uom', 'unit of measure'] },
+  { field: 'buyingPrice', label: 'Buying price', aliases: ['buying price', 'buying', 'cost', 'cost price'] },
+  { field: 'sellingPrice', label: 'Selling price', aliases: ['selling price', 'selling', 'price', 'retail price'] },
+  { field: 'batchNumber', label: 'Batch number', aliases: ['batch', 'batch number', 'batch no', 'lot'] },
+  { field: 'expiryDate', label: 'Expiry date', aliases: ['expiry', 'expiry date', 'exp', 'expires'] },
+  { field: 'location', label: 'Location', aliases: ['location', 'shelf', 'bin'] }
+];
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MAX_DATE_SERIAL = 2_958_465;
+
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\s+/g, ' ');
+}
+
+function parsePrice(text: string): number | null | undefined {
+  if (!text) return null;
+  const value = Number(text.replace(/[,\s]/g, ''));
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function parseDate(text: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    const time = Date.parse(`${text}T00:00:00Z`);
+    return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === text ? text : undefined;
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = Math.floor(Number(text));
+    if (serial < 1 || serial > MAX_DATE_SERIAL) return undefined;
+    return new Date(EXCEL_EPOCH + serial * 86_400_000).toISOString().slice(0, 10);
+  }
+  return undefined;
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const column of IMPORT_COLUMNS) {
+    const index = normalized.findIndex((h, i) => !used.has(i) && column.aliases.includes(h));
+    if (index < 0) continue;
+    mapping[column.field] = index;
+    used.add(index);
+  }
+  return mapping;
+}
+
+export function validateRows(rows: string[][], mapping: ColumnMapping, context: ImportContext): ImportRow[] {
+  const categories = new Map(context.categories.map((c) => [c.toLowerCase(), c]));
+  const skus = new Map(context.skus.map((s): [string, number] => [s.toLowerCase(), 0]));
+  const barcodes = new Map(context.barcodes.filter(Boolean).map((b): [string, number] => [b.toLowerCase(), 0]));
+
+  return rows.map((cells, i) => {
+    const line = i + 2;
+    const cell = (field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : String(cells[index] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const sku = cell('sku');
+    const name = cell('name');
+    if (!sku) errors.push('SKU is required');
+    if (!name) errors.push('Name is required');
+
+    const seenSku = sku ? skus.get(sku.toLowerCase()) : undefined;
+    if (seenSku === 0) errors.push(`SKU ${sku} already exists`);
+    else if (seenSku) errors.push(`Duplicate SKU ${sku} (line ${seenSku})`);
+    else if (sku) skus.set(sku.toLowerCase(), line);
+
+    const barcode = cell('barcode');
+    const seenBarcode = barcode ? barcodes.get(barcode.toLowerCase()) : undefined;
+    if (seenBarcode === 0) errors.push(`Barcode ${barcode} already exists`);
+    else if (seenBarcode) errors.push(`Duplicate barcode ${barcode} (line ${seenBarcode})`);
+    else if (barcode) barcodes.set(barcode.toLowerCase(), line);
+
+    let category = cell('category');
+    if (category) {
+      const known = categories.get(category.toLowerCase());
+      if (known) category = known;
+      else errors.push(`Unknown category ${category}`);
+    }
+
+    const buyingPrice = parsePrice(cell('buyingPrice'));
+    if (buyingPrice === undefined) errors.push('Buying price must be a positive number');
+    const sellingPrice = parsePrice(cell('sellingPrice'));
+    if (sellingPrice === undefined) errors.push('Selling price must be a positive number');
+
+    const batchNumber = cell('batchNumber');
+    const expiryText = cell('expiryDate');
+    const expiryDate = expiryText ? parseDate(expiryText) : '';
+    if (expiryDate === undefined) errors.push('Expiry date must be YYYY-MM-DD');
+    if (batchNumber && !expiryText) errors.push('Expiry date is required for a batch');
+    if (!batchNumber && expiryText) errors.push('Batch number is required with an expiry date');
+
+    return {
+      line,
+      cells,
+      value: {
+        sku,
+        barcode,
+        name,
+        brand: cell('brand'),
+        category,
+        variant: cell('variant'),
+        imageUrl: null,
+        unitOfMeasure: cell('unitOfMeasure'),
+        buyingPrice: buyingPrice ?? null,
+        sellingPrice: sellingPrice ?? null,
+        batchNumber,
+        expiryDate: expiryDate ?? '',
+        location: cell('location')
+      },
+      errors
+    };
+  });
+}
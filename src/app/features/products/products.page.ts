@@ -1,100 +1,134 @@
-import { Component, computed, inject, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, type ParamMap, type Params, Router, RouterLink } from '@angular/router';
+import { type Subscription, map } from 'rxjs';
+import { FileStoreService } from '../../core/files/file-store.service';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  CategoriesDocument,
+  type CategoriesQuery,
+  CreateBatchDocument,
+  CreateProductDocument,
+  ProductExportDocument,
+  type ProductExportQuery,
+  type ProductFieldsFragment,
+  type ProductFilter,
+  ProductPageDocument,
+  type ProductSort,
+  type ProductSortField,
+  SetProductStatusDocument,
+  UpdateBatchNumberDocument,
+  UnitsDocument,
+  type UnitsQuery,
+  UpdateProductDocument
+} from '../../core/graphql/generated/graphql';
 import { ProductFormComponent, ProductFormValue } from './product-form/product-form.component';
+import { ProductImportComponent } from './product-import/product-import.component';
+import { BulkPriceUpdateComponent } from './bulk-price-update/bulk-price-update.component';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { FileUrlPipe } from '../../shared/pipes/file-url.pipe';
+import { CanPipe } from '../../shared/pipes/can.pipe';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
+import { ScannerService } from '../../shared/services/scanner.service';
+import type { PageRequest, PageResult } from '../../shared/models/pagination';
+import { downloadCsv, toCsv } from '../../shared/utils/csv.utils';
+import { downloadXlsx } from '../../shared/utils/xlsx.utils';
+import { fetchAllPages } from '../../shared/utils/paging.utils';
+import { toIsoDate } from '../../shared/utils/date.utils';
 
-type Product = {
-  id: string;
-  sku: string;
-  barcode?: string | null;
-  name: string;
-  brand?: string | null;
-  category?: string | null;
-  variant?: string | null;
-  unitOfMeasure?: string | null;
-  buyingPrice?: number | null;
-  sellingPrice?: number | null;
-  active: boolean;
-  batches?: Array<{
-    id: string;
-    batchNumber: string;
-    createdAt: string;
-  }>;
-};
+type Product = ProductFieldsFragment;
 
-type Category = {
-  id: string;
-  name: string;
-  active: boolean;
-};
+type Category = CategoriesQuery['categories'][number];
 
-type ProductsQueryResult = {
-  products: Product[];
-};
+type Unit = UnitsQuery['units'][number];
 
-type CategoriesQueryResult = {
-  categories: Category[];
-};
+type ExportProduct = ProductExportQuery['productPage']['items'][number];
 
-type CreateProductMutationResult = {
-  createProduct: Product;
-};
+type ExportFormat = 'csv' | 'xlsx';
 
-type CreateBatchMutationResult = {
-  createBatch: {
-    id: string;
-  };
+type ExportColumn = {
+  key: string;
+  header: string;
+  value: (p: ExportProduct) => string | number | null;
+  cost?: boolean;
 };
 
-type UpdateProductMutationResult = {
-  updateProduct: Product;
-};
+type StatusFilter = '' | 'active' | 'inactive';
 
-type SetProductStatusMutationResult = {
-  setProductStatus: Product;
-};
+type StockFilter = '' | 'in' | 'out';
 
-type UpdateBatchNumberMutationResult = {
-  updateBatchNumber: {
-    id: string;
-  };
-};
+const PAGE_SIZES = [10, 20, 50, 100];
+const DEFAULT_PAGE_SIZE = 20;
+const SORT_FIELDS: ProductSortField[] = ['NAME', 'SKU', 'CATEGORY', 'PRICE'];
+const EXPORT_PAGE_SIZE = 1_000;
+
+function newestBatchNumber(p: ExportProduct): string {
+  const [latest] = [...p.batches].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return latest?.batchNumber ?? '';
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'sku', header: 'SKU', value: (p) => p.sku },
+  { key: 'barcode', header: 'Barcode', value: (p) => p.barcode ?? '' },
+  { key: 'name', header: 'Name', value: (p) => p.name },
+  { key: 'brand', header: 'Brand', value: (p) => p.brand ?? '' },
+  { key: 'category', header: 'Category', value: (p) => p.category ?? '' },
+  { key: 'variant', header: 'Variant', value: (p) => p.variant ?? '' },
+  { key: 'unitOfMeasure', header: 'Unit of measure', value: (p) => p.unitOfMeasure ?? '' },
+  { key: 'buyingPrice', header: 'Buying price', value: (p) => p.buyingPrice ?? null, cost: true },
+  { key: 'sellingPrice', header: 'Selling price', value: (p) => p.sellingPrice ?? null },
+  { key: 'latestBatch', header: 'Latest batch', value: (p) => newestBatchNumber(p) },
+  { key: 'stockOnHand', header: 'Stock on hand', value: (p) => p.stockOnHand }
+];
 
 @Component({
   selector: 'cis-products-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, ProductFormComponent, MoneyPipe],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterLink,
+    ProductFormComponent,
+    ProductImportComponent,
+    BulkPriceUpdateComponent,
+    MoneyPipe,
+    FileUrlPipe,
+    CanPipe,
+    CanDirective
+  ],
   templateUrl: './products.page.html',
   styleUrl: './products.page.scss'
 })
 export class ProductsPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
+  private readonly scanner = inject(ScannerService);
+  private readonly files = inject(FileStoreService);
+  private readonly draftImages = new Set<string>();
 
   loading = signal(false);
   error = signal<string | null>(null);
-  products = signal<Product[]>([]);
+  result = signal<PageResult<Product>>({ items: [], total: 0, page: 0, size: DEFAULT_PAGE_SIZE });
+  pageRequest = signal<PageRequest>({ page: 0, size: DEFAULT_PAGE_SIZE });
 
-  pageSize = signal(20);
-  pageIndex = signal(0);
+  products = computed(() => this.result().items);
+  pageSize = computed(() => this.pageRequest().size);
+  pageIndex = computed(() => this.pageRequest().page);
 
-  displayedProducts = computed(() => {
-    const all = this.products();
-    const size = this.pageSize();
-    const idx = this.pageIndex();
-    const start = idx * size;
-    return all.slice(start, start + size);
-  });
+  totalPages = computed(() => Math.max(1, Math.ceil(this.result().total / this.pageSize())));
 
-  totalPages = computed(() => {
-    const size = this.pageSize();
-    const total = this.products().length;
-    return Math.max(1, Math.ceil(total / size));
-  });
+  sort = signal<ProductSort | null>(null);
+  categoryFilter = signal('');
+  brandFilter = signal('');
+  statusFilter = signal<StatusFilter>('');
+  stockFilter = signal<StockFilter>('');
+
+  readonly pageSizes = PAGE_SIZES;
 
   categories = signal<Category[]>([]);
+  units = signal<Unit[]>([]);
   searchQuery = signal('');
 
   editingId = signal<string | null>(null);
@@ -108,8 +142,21 @@ export class ProductsPage {
   toastVariant = signal<'success' | 'error'>('success');
 
   createDialogOpen = signal(false);
+  importDialogOpen = signal(false);
+  priceDialogOpen = signal(false);
+
+  exportDialogOpen = signal(false);
+  exporting = signal(false);
+  exportFormat = signal<ExportFormat>('csv');
+  exportKeys = signal<string[]>(EXPORT_COLUMNS.map((c) => c.key));
+
+  exportColumns = computed(() => EXPORT_COLUMNS.filter((c) => !c.cost || this.perm.canViewCosts()));
 
   private readonly fb = inject(FormBuilder);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private productsSub?: Subscription;
 
   editForm = this.fb.group({
     sku: ['', [Validators.required]],
@@ -127,7 +174,20 @@ export class ProductsPage {
   constructor(private readonly gql: GraphqlService) {
     this.perm.load();
     this.loadCategories();
-    this.load();
+    this.loadUnits();
+    this.route.queryParamMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
+      this.readState(params);
+      this.load();
+    });
+
+    this.scanner.scans.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((code) => {
+      if (this.createDialogOpen() || this.importDialogOpen() || this.priceDialogOpen() || this.exportDialogOpen() || this.editingId()) return;
+      this.onSearch(code);
+    });
+  }
+
+  hasUnit(name: string): boolean {
+    return this.units().some((u) => u.name === name);
   }
 
   latestBatch(p: Product): { id: string; batchNumber: string } | null {
@@ -139,8 +199,7 @@ export class ProductsPage {
   }
 
   loadCategories(): void {
-    const query = `query Categories { categories { id name active } }`;
-    this.gql.request<CategoriesQueryResult>(query).subscribe({
+    this.gql.request(CategoriesDocument).subscribe({
       next: (res) => {
         this.categories.set(res.categories.filter((c) => c.active));
       },
@@ -150,65 +209,106 @@ export class ProductsPage {
     });
   }
 
+  loadUnits(): void {
+    this.gql.request(UnitsDocument).subscribe({
+      next: (res) => {
+        this.units.set(res.units.filter((u) => u.active));
+      },
+      error: () => {
+        this.units.set([]);
+      }
+    });
+  }
+
   load(): void {
     this.loading.set(true);
     this.error.set(null);
 
-    const query = `query Products($filter: ProductFilter) {
-      products(filter: $filter) {
-        id
-        sku
-        barcode
-        name
-        brand
-        category
-        variant
-        unitOfMeasure
-        buyingPrice
-        sellingPrice
-        active
-        batches { id batchNumber createdAt }
-      }
-    }`;
-    const q = this.searchQuery().trim();
-    const variables = q ? { filter: { query: q } } : { filter: null };
+    const variables = {
+      filter: this.filter(),
+      sort: this.sort(),
+      page: this.pageRequest(),
+      withCosts: this.perm.canViewCosts()
+    };
 
-    this.gql.request<ProductsQueryResult>(query, variables).subscribe({
-      next: (res) => {
-        this.products.set(res.products);
-        this.pageIndex.set(0);
-        this.loading.set(false);
-      },
-      error: (e: unknown) => {
-        this.error.set(e instanceof Error ? e.message : 'Failed to load');
-        this.loading.set(false);
-      }
-    });
+    this.productsSub?.unsubscribe();
+    this.productsSub = this.gql
+      .watch(ProductPageDocument, variables)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          const result = res.productPage;
+          this.result.set(result);
+          this.loading.set(false);
+
+          const lastPage = Math.max(0, Math.ceil(result.total / result.size) - 1);
+          if (result.page > lastPage) this.setPage(lastPage);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load');
+          this.loading.set(false);
+        }
+      });
   }
 
   onSearch(value: string): void {
     this.searchQuery.set(value);
-    this.load();
+    this.updateUrl({ q: value.trim() || null });
+  }
+
+  setCategoryFilter(value: string): void {
+    this.updateUrl({ category: value || null });
+  }
+
+  setBrandFilter(value: string): void {
+    this.updateUrl({ brand: value.trim() || null });
+  }
+
+  setStatusFilter(value: string): void {
+    this.updateUrl({ status: value || null });
+  }
+
+  setStockFilter(value: string): void {
+    this.updateUrl({ stock: value || null });
+  }
+
+  hasFilters(): boolean {
+    return !!(this.searchQuery().trim() || this.categoryFilter() || this.brandFilter() || this.statusFilter() || this.stockFilter());
+  }
+
+  clearFilters(): void {
+    this.searchQuery.set('');
+    this.updateUrl({ q: null, category: null, brand: null, status: null, stock: null });
+  }
+
+  toggleSort(field: ProductSortField): void {
+    const current = this.sort();
+    const direction = current?.field === field && current.direction === 'ASC' ? 'DESC' : 'ASC';
+    this.updateUrl({ sort: field.toLowerCase(), dir: direction === 'DESC' ? 'desc' : null });
+  }
+
+  sortIndicator(field: ProductSortField): string {
+    const current = this.sort();
+    if (current?.field !== field) return '';
+    return current.direction === 'ASC' ? '▲' : '▼';
   }
 
   setPageSize(size: number | string): void {
-    const next = typeof size === 'string' ? Number(size) : Number(size);
-    if (!Number.isFinite(next) || next <= 0) return;
-    this.pageSize.set(next);
-    this.pageIndex.set(0);
+    const next = Number(size);
+    if (!PAGE_SIZES.includes(next)) return;
+    this.updateUrl({ size: next === DEFAULT_PAGE_SIZE ? null : next });
   }
 
   prevPage(): void {
     const idx = this.pageIndex();
     if (idx <= 0) return;
-    this.pageIndex.set(idx - 1);
+    this.setPage(idx - 1);
   }
 
   nextPage(): void {
     const idx = this.pageIndex();
-    const total = this.totalPages();
-    if (idx >= total - 1) return;
-    this.pageIndex.set(idx + 1);
+    if (idx >= this.totalPages() - 1) return;
+    this.setPage(idx + 1);
   }
 
   latestBatchNumber(p: Product): string {
@@ -256,44 +356,34 @@ export class ProductsPage {
     const raw = this.editForm.getRawValue();
     const input = {
       id,
-      sku: raw.sku,
+      sku: raw.sku ?? '',
       barcode: raw.barcode,
       name: raw.name,
       brand: raw.brand,
       category: raw.category,
       variant: raw.variant,
       unitOfMeasure: raw.unitOfMeasure,
-      buyingPrice: raw.buyingPrice,
+      ...(this.perm.canViewCosts() ? { buyingPrice: raw.buyingPrice } : {}),
       sellingPrice: raw.sellingPrice
     };
 
-    const mutation = `mutation UpdateProduct($input: UpdateProductInput!) {
-      updateProduct(input: $input) {
-        id sku barcode name brand category variant unitOfMeasure buyingPrice sellingPrice active
-      }
-    }`;
-
-    this.gql.request<UpdateProductMutationResult>(mutation, { input }).subscribe({
+    this.gql.request(UpdateProductDocument, { input, withCosts: this.perm.canViewCosts() }).subscribe({
       next: () => {
         const batchId = this.editingBatchId();
         const original = this.editingBatchOriginalNumber();
         const newBatchNumber = String(raw.batchNumber ?? '').trim();
 
         const shouldUpdateBatch = !!batchId && newBatchNumber.length > 0 && newBatchNumber !== original;
-        if (!shouldUpdateBatch) {
+        if (!batchId || !shouldUpdateBatch) {
           this.editingId.set(null);
           this.editingBatchId.set(null);
           this.editingBatchOriginalNumber.set('');
-          this.load();
+          this.loading.set(false);
           return;
         }
 
-        const batchMutation = `mutation UpdateBatchNumber($input: UpdateBatchNumberInput!) {
-          updateBatchNumber(input: $input) { id }
-        }`;
-
         this.gql
-          .request<UpdateBatchNumberMutationResult>(batchMutation, {
+          .request(UpdateBatchNumberDocument, {
             input: {
               batchId,
               batchNumber: newBatchNumber
@@ -304,7 +394,7 @@ export class ProductsPage {
               this.editingId.set(null);
               this.editingBatchId.set(null);
               this.editingBatchOriginalNumber.set('');
-              this.load();
+              this.loading.set(false);
             },
             error: (e: unknown) => {
               this.error.set(e instanceof Error ? e.message : 'Failed to update batch');
@@ -336,12 +426,8 @@ export class ProductsPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation SetStatus($input: SetProductStatusInput!) {
-      setProductStatus(input: $input) { id active }
-    }`;
-
     this.gql
-      .request<SetProductStatusMutationResult>(mutation, {
+      .request(SetProductStatusDocument, {
         input: {
           id: p.id,
           active: false
@@ -355,7 +441,7 @@ export class ProductsPage {
           this.deleteDialogOpen.set(false);
           this.pendingDelete.set(null);
           this.showToast('Product deleted successfully', 'success');
-          this.load();
+          this.loading.set(false);
         },
         error: (e: unknown) => {
           this.error.set(e instanceof Error ? e.message : 'Failed to delete');
@@ -379,14 +465,153 @@ export class ProductsPage {
     }, 2500);
   }
 
+  private setPage(index: number): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { page: index > 0 ? index + 1 : null },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  private updateUrl(changes: Params): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { ...changes, page: null },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
+  private readState(params: ParamMap): void {
+    this.searchQuery.set(params.get('q') ?? '');
+    this.categoryFilter.set(params.get('category') ?? '');
+    this.brandFilter.set(params.get('brand') ?? '');
+
+    const status = params.get('status');
+    this.statusFilter.set(status === 'active' || status === 'inactive' ? status : '');
+
+    const stock = params.get('stock');
+    this.stockFilter.set(stock === 'in' || stock === 'out' ? stock : '');
+
+    const field = (params.get('sort') ?? '').toUpperCase() as ProductSortField;
+    this.sort.set(
+      SORT_FIELDS.includes(field) ? { field, direction: params.get('dir') === 'desc' ? 'DESC' : 'ASC' } : null
+    );
+
+    const page = Number(params.get('page'));
+    const size = Number(params.get('size'));
+    this.pageRequest.set({
+      page: Number.isInteger(page) && page > 1 ? page - 1 : 0,
+      size: PAGE_SIZES.includes(size) ? size : DEFAULT_PAGE_SIZE
+    });
+  }
+
+  private filter(): ProductFilter | null {
+    const filter: ProductFilter = {};
+    const query = this.searchQuery().trim();
+    if (query) filter.query = query;
+    if (this.categoryFilter()) filter.category = this.categoryFilter();
+    if (this.brandFilter()) filter.brand = this.brandFilter();
+    if (this.statusFilter()) filter.active = this.statusFilter() === 'active';
+    if (this.stockFilter()) filter.hasStock = this.stockFilter() === 'in';
+    return Object.keys(filter).length ? filter : null;
+  }
+
   openCreate(): void {
     this.createDialogOpen.set(true);
     this.error.set(null);
   }
 
   cancelCreate(): void {
+    this.closeCreate();
+    this.error.set(null);
+  }
+
+  onDraftImage(url: string | null): void {
+    if (url) this.draftImages.add(url);
+  }
+
+  private closeCreate(): void {
     this.createDialogOpen.set(false);
+    for (const url of this.draftImages) this.files.discard(url);
+    this.draftImages.clear();
+  }
+
+  openImport(): void {
+    this.importDialogOpen.set(true);
+  }
+
+  closeImport(): void {
+    this.importDialogOpen.set(false);
+  }
+
+  onImported(count: number): void {
+    this.showToast(`${count} product${count === 1 ? '' : 's'} imported`, 'success');
+  }
+
+  openPriceUpdate(): void {
+    this.priceDialogOpen.set(true);
+  }
+
+  closePriceUpdate(): void {
+    this.priceDialogOpen.set(false);
+  }
+
+  onPricesUpdated(count: number): void {
+    this.priceDialogOpen.set(false);
+    this.showToast(`${count} price change${count === 1 ? '' : 's'} saved`, 'success');
+  }
+
+  openExport(): void {
+    this.error.set(null);
+    this.exportDialogOpen.set(true);
+  }
+
+  closeExport(): void {
+    this.exportDialogOpen.set(false);
+  }
+
+  toggleExportColumn(key: string, checked: boolean): void {
+    this.exportKeys.update((keys) => (checked ? [...keys, key] : keys.filter((k) => k !== key)));
+  }
+
+  exportProducts(): void {
+    const keys = this.exportKeys();
+    const columns = this.exportColumns().filter((c) => keys.includes(c.key));
+    if (!columns.length) return;
+
+    this.exporting.set(true);
     this.error.set(null);
+
+    fetchAllPages(
+      (page) =>
+        this.gql
+          .request(ProductExportDocument, {
+            filter: this.filter(),
+            sort: this.sort(),
+            page: { page, size: EXPORT_PAGE_SIZE },
+            withCosts: this.perm.canViewCosts()
+          })
+          .pipe(map((res) => res.productPage)),
+      EXPORT_PAGE_SIZE
+    ).subscribe({
+      next: (items) => {
+        const filename = `products_${toIsoDate(new Date())}`;
+        if (this.exportFormat() === 'xlsx') {
+          const rows = items.map((p) => columns.map((c) => c.value(p)));
+          downloadXlsx(filename, [columns.map((c) => c.header), ...rows], 'Products');
+        } else {
+          downloadCsv(filename, toCsv(items, columns));
+        }
+        this.exportDialogOpen.set(false);
+        this.exporting.set(false);
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to export products');
+        this.exporting.set(false);
+      }
+    });
   }
 
   create(value: ProductFormValue): void {
@@ -400,40 +625,39 @@ export class ProductsPage {
       brand: value.brand,
       category: value.category,
       variant: value.variant,
+      imageUrl: value.imageUrl,
       unitOfMeasure: value.unitOfMeasure,
-      buyingPrice: value.buyingPrice,
+      ...(this.perm.canViewCosts() ? { buyingPrice: value.buyingPrice } : {}),
       sellingPrice: value.sellingPrice
     };
 
-    const mutation = `mutation Create($input: CreateProductInput!) { createProduct(input: $input) { id sku } }`;
-
-    this.gql.request<CreateProductMutationResult>(mutation, { input: productInput }).subscribe({
+    this.gql.request(CreateProductDocument, { input: productInput, withCosts: this.perm.canViewCosts() }).subscribe({
       next: (res) => {
+        if (value.imageUrl) this.draftImages.delete(value.imageUrl);
         const batchNumber = (value.batchNumber ?? '').trim();
         const expiryDate = (value.expiryDate ?? '').trim();
         const location = (value.location ?? '').trim();
         const shouldCreateBatch = batchNumber.length > 0 && expiryDate.length > 0;
 
         if (!shouldCreateBatch) {
-          this.createDialogOpen.set(false);
-          this.load();
+          this.closeCreate();
+          this.loading.set(false);
           return;
         }
 
-        const createBatchMutation = `mutation CreateBatch($input: CreateBatchInput!) { createBatch(input: $input) { id } }`;
         const createBatchInput = {
           productId: res.createProduct.id,
           batchNumber,
           expiryDate,
-          costPrice: value.buyingPrice ?? 0,
+          ...(this.perm.canViewCosts() ? { costPrice: value.buyingPrice ?? 0 } : {}),
           quantityReceived: 0,
           location: location.length ? location : null
         };
 
-        this.gql.request<CreateBatchMutationResult>(createBatchMutation, { input: createBatchInput }).subscribe({
+        this.gql.request(CreateBatchDocument, { input: createBatchInput, withCosts: this.perm.canViewCosts() }).subscribe({
           next: () => {
-            this.createDialogOpen.set(false);
-            this.load();
+            this.closeCreate();
+            this.loading.set(false);
           },
           error: (e: unknown) => {
             this.error.set(e instanceof Error ? e.message : 'Batch creation failed');
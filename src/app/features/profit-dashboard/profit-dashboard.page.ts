@@ -2,53 +2,13 @@ import { CommonModule } from '@angular/common';
 import { Component, computed, inject, signal } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import { DailySalesReportDocument, ExpensesDocument } from '../../core/graphql/generated/graphql';
+import { PermissionService } from '../../shared/services/permission.service';
+import { SalesReportService } from '../../shared/services/sales-report.service';
 import { forkJoin } from 'rxjs';
 import { BaseChartDirective } from 'ng2-charts';
 import type { ChartConfiguration, ChartData } from 'chart.js';
 
-type DailySalesReportItem = {
-  productId: string;
-  sku: string;
-  productName: string;
-  quantitySold: number;
-  salesAmount: number;
-  costAmount: number;
-  profitAmount: number;
-};
-
-type DailySalesReport = {
-  date: string;
-  totalSalesAmount: number;
-  totalCostAmount: number;
-  totalProfitAmount: number;
-  items: DailySalesReportItem[];
-};
-
-type DailySalesReportQueryResult = {
-  dailySalesReport: DailySalesReport;
-};
-
-type ExpenseCategory = {
-  id: string;
-  name: string;
-  active: boolean;
-};
-
-type Expense = {
-  id: string;
-  date: string;
-  description?: string | null;
-  amount: number;
-  paymentMethod: string;
-  createdAt: string;
-  createdBy?: string | null;
-  category: ExpenseCategory;
-};
-
-type ExpensesQueryResult = {
-  expenses: Expense[];
-};
-
 @Component({
   selector: 'cis-profit-dashboard-page',
   standalone: true,
@@ -61,6 +21,8 @@ export class ProfitDashboardPage {
   error = signal<string | null>(null);
 
   private readonly gql = inject(GraphqlService);
+  private readonly reports = inject(SalesReportService);
+  private readonly perm = inject(PermissionService);
   private readonly fb = inject(FormBuilder);
 
   selectedDateForm = this.fb.group({
@@ -174,36 +136,16 @@ export class ProfitDashboardPage {
       return;
     }
 
-    const qDaily = `query DailySales($date: String!) {
-      dailySalesReport(date: $date) {
-        date
-        totalSalesAmount
-        totalProfitAmount
-        items { productId sku productName quantitySold salesAmount costAmount profitAmount }
-      }
-    }`;
-
-    const qExpenses = `query Expenses($filter: ExpenseFilter) {
-      expenses(filter: $filter) {
-        id date amount paymentMethod createdAt createdBy
-        description
-        category { id name active }
-      }
-    }`;
-
     const from7 = this.addDaysIso(date, -6);
     const to7 = this.addDaysIso(date, 0);
 
-    const dailyReq = this.gql.request<DailySalesReportQueryResult>(qDaily, { date });
-    const expensesReq = this.gql.request<ExpensesQueryResult>(qExpenses, { filter: { from: from7, to: to7 } });
-
-    const last7Dates = Array.from({ length: 7 }).map((_, i) => this.addDaysIso(date, i - 6));
-    const last7DailyReqs = last7Dates.map((d) => this.gql.request<DailySalesReportQueryResult>(qDaily, { date: d }));
+    const dailyReq = this.gql.request(DailySalesReportDocument, { date, withCosts: this.perm.canViewCosts() });
+    const expensesReq = this.gql.request(ExpensesDocument, { filter: { from: from7, to: to7 } });
 
     forkJoin({
       daily: dailyReq,
       expenses: expensesReq,
-      last7: forkJoin(last7DailyReqs)
+      last7: this.reports.range(from7, to7, 'DAY')
     }).subscribe({
       next: ({ daily, expenses, last7 }) => {
         const report = daily.dailySalesReport;
@@ -230,16 +172,15 @@ export class ProfitDashboardPage {
         this.expenseBreakdownLabels.set(breakdownSorted.map((x) => x[0]));
         this.expenseBreakdownValues.set(breakdownSorted.map((x) => x[1]));
 
-        const profits = (last7 ?? []).map((r, idx) => {
-          const d = last7Dates[idx];
-          const salesProfit = Number(r?.dailySalesReport?.totalProfitAmount ?? 0);
+        const profits = last7.map((b) => {
+          const salesProfit = Number(b.totalProfitAmount ?? 0);
           const expTotal = expList
-            .filter((e) => String(e.date ?? '') === d)
+            .filter((e) => String(e.date ?? '') === b.period)
             .reduce((sum, e) => sum + Number(e.amount ?? 0), 0);
           return salesProfit - expTotal;
         });
 
-        this.profit7DaysLabels.set(last7Dates);
+        this.profit7DaysLabels.set(last7.map((b) => b.period));
         this.profit7DaysData.set(profits);
 
         this.loading.set(false);
@@ -4,28 +4,11 @@ import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { forkJoin } from 'rxjs';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import { ExpensesDocument } from '../../core/graphql/generated/graphql';
+import { MaskedPipe } from '../../shared/pipes/masked.pipe';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
-
-type DailySalesReport = {
-  date: string;
-  totalSalesAmount: number;
-  totalProfitAmount: number;
-};
-
-type DailySalesReportQueryResult = {
-  dailySalesReport: DailySalesReport;
-};
-
-type Expense = {
-  id: string;
-  date: string;
-  amount: number;
-  category: { id: string; name: string; active: boolean };
-};
-
-type ExpensesQueryResult = {
-  expenses: Expense[];
-};
+import { PermissionService } from '../../shared/services/permission.service';
+import { SalesReportService } from '../../shared/services/sales-report.service';
 
 type ProfitMode = 'DAY' | 'MONTH' | 'YEAR';
 
@@ -41,7 +24,7 @@ type ProfitRow = {
 @Component({
   selector: 'cis-profit-management-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, MoneyPipe],
+  imports: [CommonModule, ReactiveFormsModule, MoneyPipe, MaskedPipe],
   templateUrl: './profit-management.page.html',
   styleUrl: './profit-management.page.scss'
 })
@@ -50,7 +33,11 @@ export class ProfitManagementPage {
   error = signal<string | null>(null);
 
   private readonly gql = inject(GraphqlService);
+  private readonly reports = inject(SalesReportService);
   private readonly fb = inject(FormBuilder);
+  private readonly perm = inject(PermissionService);
+
+  showCosts = computed(() => this.perm.canViewCosts());
 
   form = this.fb.group({
     mode: ['DAY' as ProfitMode, [Validators.required]],
@@ -71,11 +58,6 @@ export class ProfitManagementPage {
     this.load();
   }
 
-  private isoDateParts(iso: string): { y: number; m: number; d: number } {
-    const [y, m, d] = iso.split('-').map((x) => Number(x));
-    return { y, m, d };
-  }
-
   private daysInMonth(year: number, month1to12: number): number {
     return new Date(year, month1to12, 0).getDate();
   }
@@ -119,135 +101,49 @@ export class ProfitManagementPage {
     });
   }
 
-  load(): void {
-    this.loading.set(true);
-    this.error.set(null);
-
+  private buildRows(mode: ProfitMode): ProfitRow[] {
     const raw = this.form.getRawValue();
-    const mode = (raw.mode ?? 'DAY') as ProfitMode;
-
-    const qDaily = `query DailySales($date: String!) {
-      dailySalesReport(date: $date) {
-        date
-        totalProfitAmount
-        totalSalesAmount
-      }
-    }`;
-
-    const qExpenses = `query Expenses($filter: ExpenseFilter) {
-      expenses(filter: $filter) {
-        id
-        date
-        amount
-        category { id name active }
-      }
-    }`;
 
     if (mode === 'DAY') {
       const date = String(raw.date ?? '').trim();
-      if (!date) {
-        this.rows.set([]);
-        this.loading.set(false);
-        return;
-      }
-
-      forkJoin({
-        daily: this.gql.request<DailySalesReportQueryResult>(qDaily, { date }),
-        expenses: this.gql.request<ExpensesQueryResult>(qExpenses, { filter: { from: date, to: date } })
-      }).subscribe({
-        next: ({ daily, expenses }) => {
-          const gross = Number(daily?.dailySalesReport?.totalProfitAmount ?? 0);
-          const expTotal = (expenses?.expenses ?? []).reduce((s, e) => s + Number(e.amount ?? 0), 0);
-          this.rows.set([
-            {
-              label: date,
-              from: date,
-              to: date,
-              grossProfit: gross,
-              expenses: expTotal,
-              netProfit: gross - expTotal
-            }
-          ]);
-          this.loading.set(false);
-        },
-        error: (e: unknown) => {
-          this.error.set(e instanceof Error ? e.message : 'Failed to load profit');
-          this.loading.set(false);
-        }
-      });
-      return;
+      if (!date) return [];
+      return [{ label: date, from: date, to: date, grossProfit: 0, expenses: 0, netProfit: 0 }];
     }
 
-    if (mode === 'MONTH') {
-      const year = Number(raw.year ?? '');
-      const month = Number(raw.month ?? '');
-      if (!year || !month || month < 1 || month > 12) {
-        this.rows.set([]);
-        this.loading.set(false);
-        return;
-      }
-
-      const rows = this.buildMonthRows(year, month);
-      const from = rows[0]?.from;
-      const to = rows[rows.length - 1]?.to;
-
-      const dailyReqs = rows.map((r) => this.gql.request<DailySalesReportQueryResult>(qDaily, { date: r.from }));
-      const expensesReq = this.gql.request<ExpensesQueryResult>(qExpenses, { filter: { from, to } });
-
-      forkJoin({ daily: forkJoin(dailyReqs), expenses: expensesReq }).subscribe({
-        next: ({ daily, expenses }) => {
-          const expList = expenses?.expenses ?? [];
+    const year = Number(raw.year ?? '');
+    if (!year) return [];
+    if (mode === 'YEAR') return this.buildYearRows(year);
 
-          const mapped = rows.map((r, idx) => {
-            const gross = Number(daily[idx]?.dailySalesReport?.totalProfitAmount ?? 0);
-            const expTotal = expList
-              .filter((e) => String(e.date ?? '') === r.from)
-              .reduce((s, e) => s + Number(e.amount ?? 0), 0);
-            return {
-              ...r,
-              grossProfit: gross,
-              expenses: expTotal,
-              netProfit: gross - expTotal
-            };
-          });
+    const month = Number(raw.month ?? '');
+    if (!month || month < 1 || month > 12) return [];
+    return this.buildMonthRows(year, month);
+  }
 
-          this.rows.set(mapped);
-          this.loading.set(false);
-        },
-        error: (e: unknown) => {
-          this.error.set(e instanceof Error ? e.message : 'Failed to load monthly profit');
-          this.loading.set(false);
-        }
-      });
-      return;
-    }
+  load(): void {
+    this.loading.set(true);
+    this.error.set(null);
 
-    const year = Number(raw.year ?? '');
-    if (!year) {
+    const mode = (this.form.getRawValue().mode ?? 'DAY') as ProfitMode;
+    const rows = this.buildRows(mode);
+    if (!rows.length) {
       this.rows.set([]);
       this.loading.set(false);
       return;
     }
 
-    const rows = this.buildYearRows(year);
-    const from = rows[0]?.from;
-    const to = rows[rows.length - 1]?.to;
-
-    const expensesReq = this.gql.request<ExpensesQueryResult>(qExpenses, { filter: { from, to } });
-
-    const dailyPerMonthReqs = rows.map((r) => {
-      const { y, m } = this.isoDateParts(r.from);
-      const days = this.daysInMonth(y, m);
-      const dates = Array.from({ length: days }).map((_, idx) => `${y}-${this.pad2(m)}-${this.pad2(idx + 1)}`);
-      return forkJoin(dates.map((d) => this.gql.request<DailySalesReportQueryResult>(qDaily, { date: d })));
-    });
+    const from = rows[0].from;
+    const to = rows[rows.length - 1].to;
 
-    forkJoin({ perMonth: forkJoin(dailyPerMonthReqs), expenses: expensesReq }).subscribe({
-      next: ({ perMonth, expenses }) => {
+    forkJoin({
+      sales: this.reports.range(from, to, mode === 'YEAR' ? 'MONTH' : 'DAY'),
+      expenses: this.gql.request(ExpensesDocument, { filter: { from, to } })
+    }).subscribe({
+      next: ({ sales, expenses }) => {
+        const grossByPeriod = new Map(sales.map((b) => [b.period, Number(b.totalProfitAmount ?? 0)] as const));
         const expList = expenses?.expenses ?? [];
 
-        const mapped = rows.map((r, idx) => {
-          const gross = (perMonth[idx] ?? []).reduce((s, x) => s + Number(x?.dailySalesReport?.totalProfitAmount ?? 0), 0);
+        const mapped = rows.map((r) => {
+          const gross = grossByPeriod.get(r.label) ?? 0;
           const expTotal = expList
             .filter((e) => String(e.date ?? '') >= r.from && String(e.date ?? '') <= r.to)
             .reduce((s, e) => s + Number(e.amount ?? 0), 0);
@@ -263,7 +159,9 @@ export class ProfitManagementPage {
         this.loading.set(false);
       },
       error: (e: unknown) => {
-        this.error.set(e instanceof Error ? e.message : 'Failed to load yearly profit');
+        const fallback =
+          mode === 'YEAR' ? 'Failed to load yearly profit' : mode === 'MONTH' ? 'Failed to load monthly profit' : 'Failed to load profit';
+        this.error.set(e instanceof Error ? e.message : fallback);
         this.loading.set(false);
       }
     });
@@ -1,48 +1,51 @@
 import { CommonModule } from '@angular/common';
-import { Component, computed, inject, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import type { Subscription } from 'rxjs';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  DeletePurchaseDocument,
+  type PurchaseOrderFieldsFragment,
+  PurchaseOrdersDocument,
+  ReceivePurchaseDocument,
+  UpdatePurchaseDocument
+} from '../../core/graphql/generated/graphql';
 import { ConfirmDialogComponent } from '../../shared/ui/confirm-dialog/confirm-dialog.component';
 import { ModalComponent } from '../../shared/ui/modal/modal.component';
+import { MaskedPipe } from '../../shared/pipes/masked.pipe';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { CanPipe } from '../../shared/pipes/can.pipe';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
+import { type ScannedProduct, ScannerService } from '../../shared/services/scanner.service';
+import { CameraScannerComponent } from '../../shared/ui/camera-scanner/camera-scanner.component';
+import { type UnitFactor, toBaseQuantity, unitFactor, unitOptions } from '../../shared/utils/unit.utils';
 
-type PurchaseOrderLine = {
-  id: string;
-  productId: string;
-  sku: string;
-  productName: string;
-  batchId: string;
-  batchNumber: string;
-  expiryDate: string;
-  costPrice: number;
-  quantityReceived: number;
-};
-
-type PurchaseOrder = {
-  id: string;
-  supplier?: string | null;
-  invoiceNumber?: string | null;
-  receivedAt: string;
-  receivedBy?: string | null;
-  lines: PurchaseOrderLine[];
-};
-
-type PurchaseOrdersQueryResult = { purchaseOrders: PurchaseOrder[] };
-type ReceivePurchaseMutationResult = { receivePurchase: PurchaseOrder };
-type UpdatePurchaseMutationResult = { updatePurchase: PurchaseOrder };
-type DeletePurchaseMutationResult = { deletePurchase: boolean };
+type PurchaseOrder = PurchaseOrderFieldsFragment;
 
 @Component({
   selector: 'cis-purchasing-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, ModalComponent, ConfirmDialogComponent, MoneyPipe],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    ModalComponent,
+    ConfirmDialogComponent,
+    CameraScannerComponent,
+    MoneyPipe,
+    MaskedPipe,
+    CanPipe,
+    CanDirective
+  ],
   templateUrl: './purchasing.page.html',
   styleUrl: './purchasing.page.scss'
 })
 export class PurchasingPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
+  private readonly scanner = inject(ScannerService);
 
   loading = signal(false);
   error = signal<string | null>(null);
@@ -57,10 +60,25 @@ export class PurchasingPage {
 
   orders = signal<PurchaseOrder[]>([]);
   lines = signal<
-    Array<{ productId: number; batchNumber: string; expiryDate: string; costPrice: number; quantityReceived: number }>
+    Array<{
+      productId: number;
+      batchNumber: string;
+      expiryDate: string;
+      costPrice?: number;
+      quantityReceived: number;
+      unit?: string | null;
+    }>
   >([]);
 
+  productCode = signal('');
+  lineProduct = signal<ScannedProduct | null>(null);
+  cameraOpen = signal(false);
+  readonly cameraSupported = this.scanner.cameraSupported();
+
   private readonly fb = inject(FormBuilder);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly route = inject(ActivatedRoute);
+  private ordersSub?: Subscription;
 
   headerForm = this.fb.group({
     supplier: [''],
@@ -72,12 +90,18 @@ export class PurchasingPage {
     batchNumber: ['', [Validators.required]],
     expiryDate: ['', [Validators.required]],
     costPrice: [0 as number, [Validators.required]],
-    quantityReceived: [1 as number, [Validators.required]]
+    quantityReceived: [1 as number, [Validators.required]],
+    unit: ['']
   });
 
   constructor(private readonly gql: GraphqlService) {
     this.perm.load();
     this.load();
+    this.detailsOrderId.set(this.route.snapshot.queryParamMap.get('id'));
+
+    this.scanner.scans.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((code) => {
+      if (this.createOpen() && !this.cameraOpen()) this.onScan(code);
+    });
   }
 
   openDeleteConfirm(id: string): void {
@@ -107,7 +131,8 @@ export class PurchasingPage {
     this.error.set(null);
     this.editingOrderId.set(null);
     this.headerForm.reset({ supplier: '', invoiceNumber: '' });
-    this.lineForm.reset({ productId: null, batchNumber: '', expiryDate: '', costPrice: 0, quantityReceived: 1 });
+    this.lineForm.reset({ productId: null, batchNumber: '', expiryDate: '', costPrice: 0, quantityReceived: 1, unit: '' });
+    this.clearScanned();
     this.lines.set([]);
     this.createOpen.set(true);
   }
@@ -116,14 +141,16 @@ export class PurchasingPage {
     this.error.set(null);
     this.editingOrderId.set(String(o.id));
     this.headerForm.reset({ supplier: o.supplier ?? '', invoiceNumber: o.invoiceNumber ?? '' });
-    this.lineForm.reset({ productId: null, batchNumber: '', expiryDate: '', costPrice: 0, quantityReceived: 1 });
+    this.lineForm.reset({ productId: null, batchNumber: '', expiryDate: '', costPrice: 0, quantityReceived: 1, unit: '' });
+    this.clearScanned();
     this.lines.set(
       (o.lines ?? []).map((l) => ({
         productId: Number(l.productId),
         batchNumber: String(l.batchNumber ?? ''),
         expiryDate: String(l.expiryDate ?? ''),
-        costPrice: Number(l.costPrice ?? 0),
-        quantityReceived: Number(l.quantityReceived ?? 0)
+        ...(this.perm.canViewCosts() ? { costPrice: Number(l.costPrice ?? 0) } : {}),
+        quantityReceived: Number(l.quantityReceived ?? 0),
+        unit: l.unit ?? null
       }))
     );
     this.createOpen.set(true);
@@ -134,6 +161,67 @@ export class PurchasingPage {
     this.editingOrderId.set(null);
   }
 
+  onScan(code: string): void {
+    this.productCode.set(code);
+    this.scanner.resolve(code).subscribe({
+      next: (p) => {
+        if (!p) {
+          this.error.set(`No product matches ${code}`);
+          return;
+        }
+        this.error.set(null);
+        const unit = p.purchaseUnit ?? p.unitOfMeasure ?? null;
+        this.lineProduct.set(p);
+        this.lineForm.patchValue({
+          productId: Number(p.id),
+          unit: unit ?? '',
+          ...(this.perm.canViewCosts() && p.buyingPrice != null ? { costPrice: p.buyingPrice * unitFactor(p.units, unit) } : {})
+        });
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to look up product');
+      }
+    });
+  }
+
+  onCodeEnter(event: Event): void {
+    if (event.defaultPrevented) return;
+    event.preventDefault();
+    const code = this.productCode().trim();
+    if (code) this.onScan(code);
+  }
+
+  onCameraDetected(code: string): void {
+    this.cameraOpen.set(false);
+    this.onScan(code);
+  }
+
+  scannedLabel(): string | null {
+    const p = this.lineProduct();
+    if (!p || Number(p.id) !== Number(this.lineForm.controls.productId.value)) return null;
+    return `${p.name} (${p.sku})`;
+  }
+
+  lineUnits(): UnitFactor[] {
+    const p = this.lineProduct();
+    if (!p || Number(p.id) !== Number(this.lineForm.controls.productId.value)) return [];
+    return unitOptions(p.unitOfMeasure, p.units);
+  }
+
+  onUnitChanged(): void {
+    const p = this.lineProduct();
+    if (!p || p.buyingPrice == null || !this.perm.canViewCosts()) return;
+    this.lineForm.patchValue({ costPrice: p.buyingPrice * unitFactor(p.units, this.lineForm.controls.unit.value) });
+  }
+
+  baseQuantityHint(): string | null {
+    const p = this.lineProduct();
+    const unit = this.lineForm.controls.unit.value;
+    if (!this.lineUnits().length || !p?.unitOfMeasure || !unit || unit === p.unitOfMeasure) return null;
+    const quantity = Number(this.lineForm.controls.quantityReceived.value ?? 0);
+    return `= ${toBaseQuantity(quantity, unit, p.units)} ${p.unitOfMeasure}`;
+  }
+
   purchaseTotalValue(o: PurchaseOrder): number {
     return (o.lines ?? []).reduce((sum, l) => sum + Number(l.quantityReceived ?? 0) * Number(l.costPrice ?? 0), 0);
   }
@@ -142,18 +230,20 @@ export class PurchasingPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const q = `query { purchaseOrders { id supplier invoiceNumber receivedAt receivedBy lines { id productId sku productName batchId batchNumber expiryDate costPrice quantityReceived } } }`;
-
-    this.gql.request<PurchaseOrdersQueryResult>(q).subscribe({
-      next: (res) => {
-        this.orders.set(res.purchaseOrders);
-        this.loading.set(false);
-      },
-      error: (e: unknown) => {
-        this.error.set(e instanceof Error ? e.message : 'Failed to load purchase orders');
-        this.loading.set(false);
-      }
-    });
+    this.ordersSub?.unsubscribe();
+    this.ordersSub = this.gql
+      .watch(PurchaseOrdersDocument, { withCosts: this.perm.canViewCosts() })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.orders.set(res.purchaseOrders);
+          this.loading.set(false);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load purchase orders');
+          this.loading.set(false);
+        }
+      });
   }
 
   addLine(): void {
@@ -167,8 +257,9 @@ export class PurchasingPage {
         productId: raw.productId,
         batchNumber: raw.batchNumber ?? '',
         expiryDate: raw.expiryDate ?? '',
-        costPrice: Number(raw.costPrice ?? 0),
-        quantityReceived: Number(raw.quantityReceived ?? 0)
+        ...(this.perm.canViewCosts() ? { costPrice: Number(raw.costPrice ?? 0) } : {}),
+        quantityReceived: Number(raw.quantityReceived ?? 0),
+        unit: this.lineUnits().length ? raw.unit || null : null
       }
     ]);
 
@@ -177,8 +268,15 @@ export class PurchasingPage {
       batchNumber: '',
       expiryDate: '',
       costPrice: 0,
-      quantityReceived: 1
+      quantityReceived: 1,
+      unit: ''
     });
+    this.clearScanned();
+  }
+
+  private clearScanned(): void {
+    this.productCode.set('');
+    this.lineProduct.set(null);
   }
 
   removeLine(index: number): void {
@@ -202,21 +300,15 @@ export class PurchasingPage {
 
     const editingId = this.editingOrderId();
     if (editingId) {
-      const mutation = `mutation UpdatePurchase($input: UpdatePurchaseInput!) {
-        updatePurchase(input: $input) {
-          id supplier invoiceNumber receivedAt receivedBy
-          lines { id productId sku productName batchId batchNumber expiryDate costPrice quantityReceived }
-        }
-      }`;
-
       this.gql
-        .request<UpdatePurchaseMutationResult>(mutation, {
+        .request(UpdatePurchaseDocument, {
           input: {
             id: editingId,
             supplier: header.supplier || null,
             invoiceNumber: header.invoiceNumber || null,
             lines: this.lines()
-          }
+          },
+          withCosts: this.perm.canViewCosts()
         })
         .subscribe({
           next: () => {
@@ -224,7 +316,7 @@ export class PurchasingPage {
             this.lines.set([]);
             this.createOpen.set(false);
             this.editingOrderId.set(null);
-            this.load();
+            this.loading.set(false);
           },
           error: (e: unknown) => {
             this.error.set(e instanceof Error ? e.message : 'Failed to update purchase');
@@ -234,20 +326,14 @@ export class PurchasingPage {
       return;
     }
 
-    const mutation = `mutation Receive($input: ReceivePurchaseInput!) {
-      receivePurchase(input: $input) {
-        id supplier invoiceNumber receivedAt receivedBy
-        lines { id productId sku productName batchId batchNumber expiryDate costPrice quantityReceived }
-      }
-    }`;
-
     this.gql
-      .request<ReceivePurchaseMutationResult>(mutation, {
+      .request(ReceivePurchaseDocument, {
         input: {
           supplier: header.supplier || null,
           invoiceNumber: header.invoiceNumber || null,
           lines: this.lines()
-        }
+        },
+        withCosts: this.perm.canViewCosts()
       })
       .subscribe({
         next: () => {
@@ -255,7 +341,7 @@ export class PurchasingPage {
           this.lines.set([]);
           this.createOpen.set(false);
           this.editingOrderId.set(null);
-          this.load();
+          this.loading.set(false);
         },
         error: (e: unknown) => {
           this.error.set(e instanceof Error ? e.message : 'Failed to receive purchase');
@@ -268,10 +354,9 @@ export class PurchasingPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeletePurchase($input: DeletePurchaseInput!) { deletePurchase(input: $input) }`;
-    this.gql.request<DeletePurchaseMutationResult>(mutation, { input: { id } }).subscribe({
+    this.gql.request(DeletePurchaseDocument, { input: { id } }).subscribe({
       next: () => {
-        this.load();
+        this.loading.set(false);
       },
       error: (e: unknown) => {
         this.error.set(e instanceof Error ? e.message : 'Failed to delete purchase');
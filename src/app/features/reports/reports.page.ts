@@ -3,59 +3,29 @@ import { Component, inject, signal } from '@angular/core';
 import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  DailySalesReportDocument,
+  type DailySalesReportQuery,
+  InventoryValuationDocument,
+  type InventoryValuationQuery,
+  MovementAuditReportDocument,
+  type StockMovementFieldsFragment
+} from '../../core/graphql/generated/graphql';
+import { CanPipe } from '../../shared/pipes/can.pipe';
+import { MaskedPipe } from '../../shared/pipes/masked.pipe';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { PermissionService } from '../../shared/services/permission.service';
 
-type InventoryValuation = {
-  totalStockValue: number;
-};
-
-type InventoryValuationQueryResult = {
-  inventoryValuation: InventoryValuation;
-};
-
-type StockMovement = {
-  id: string;
-  type: string;
-  quantity: number;
-  createdAt: string;
-  createdBy?: string | null;
-  note?: string | null;
-  sku: string;
-  productName: string;
-  batchNumber: string;
-  expiryDate: string;
-};
-
-type MovementAuditQueryResult = {
-  movementAuditReport: StockMovement[];
-};
-
-type DailySalesReportItem = {
-  productId: string;
-  sku: string;
-  productName: string;
-  quantitySold: number;
-  salesAmount: number;
-  costAmount: number;
-  profitAmount: number;
-};
-
-type DailySalesReport = {
-  date: string;
-  totalSalesAmount: number;
-  totalCostAmount: number;
-  totalProfitAmount: number;
-  items: DailySalesReportItem[];
-};
-
-type DailySalesReportQueryResult = {
-  dailySalesReport: DailySalesReport;
-};
+type InventoryValuation = NonNullable<InventoryValuationQuery['inventoryValuation']>;
+
+type StockMovement = StockMovementFieldsFragment;
+
+type DailySalesReport = DailySalesReportQuery['dailySalesReport'];
 
 @Component({
   selector: 'cis-reports-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, MoneyPipe],
+  imports: [CommonModule, ReactiveFormsModule, MoneyPipe, MaskedPipe, CanPipe],
   templateUrl: './reports.page.html',
   styleUrl: './reports.page.scss'
 })
@@ -69,6 +39,7 @@ export class ReportsPage {
   dailySales = signal<DailySalesReport | null>(null);
 
   private readonly fb = inject(FormBuilder);
+  private readonly perm = inject(PermissionService);
 
   auditForm = this.fb.group({
     type: [''],
@@ -88,9 +59,8 @@ export class ReportsPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const qVal = `query { inventoryValuation { totalStockValue } }`;
-    this.gql.request<InventoryValuationQueryResult>(qVal).subscribe({
-      next: (res) => this.valuation.set(res.inventoryValuation),
+    this.gql.request(InventoryValuationDocument, { withCosts: this.perm.canViewCosts() }).subscribe({
+      next: (res) => this.valuation.set(res.inventoryValuation ?? null),
       error: () => {}
     });
 
@@ -110,17 +80,7 @@ export class ReportsPage {
       return;
     }
 
-    const q = `query DailySales($date: String!) {
-      dailySalesReport(date: $date) {
-        date
-        totalSalesAmount
-        totalCostAmount
-        totalProfitAmount
-        items { productId sku productName quantitySold salesAmount costAmount profitAmount }
-      }
-    }`;
-
-    this.gql.request<DailySalesReportQueryResult>(q, { date }).subscribe({
+    this.gql.request(DailySalesReportDocument, { date, withCosts: this.perm.canViewCosts() }).subscribe({
       next: (res) => {
         this.dailySales.set(res.dailySalesReport);
         this.loading.set(false);
@@ -138,14 +98,8 @@ export class ReportsPage {
 
     const raw = this.auditForm.getRawValue();
 
-    const q = `query Audit($filter: MovementAuditFilter) {
-      movementAuditReport(filter: $filter) {
-        id type quantity createdAt createdBy note sku productName batchNumber expiryDate
-      }
-    }`;
-
     this.gql
-      .request<MovementAuditQueryResult>(q, {
+      .request(MovementAuditReportDocument, {
         filter: {
           type: raw.type || null,
           from: raw.from || null,
@@ -1,62 +1,62 @@
 import { CommonModule } from '@angular/common';
-import { Component, computed, inject, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import type { Subscription } from 'rxjs';
 
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  DeleteSaleDocument,
+  ProductOptionsDocument,
+  type ProductOptionsQuery,
+  type SalesOrderFieldsFragment,
+  SalesOrdersDocument,
+  UpdateSaleDocument
+} from '../../core/graphql/generated/graphql';
 import { ConfirmDialogComponent } from '../../shared/ui/confirm-dialog/confirm-dialog.component';
 import { ModalComponent } from '../../shared/ui/modal/modal.component';
 import { MoneyPipe } from '../../shared/pipes/money.pipe';
+import { FileUrlPipe } from '../../shared/pipes/file-url.pipe';
+import { CanDirective } from '../../shared/directives/can.directive';
 import { PermissionService } from '../../shared/services/permission.service';
+import { ScannerService } from '../../shared/services/scanner.service';
+import { CameraScannerComponent } from '../../shared/ui/camera-scanner/camera-scanner.component';
+import { findByCode } from '../../shared/utils/scan.utils';
+import { type UnitFactor, toBaseQuantity, unitFactor, unitOptions } from '../../shared/utils/unit.utils';
+import { OutboxService } from '../../core/offline/outbox.service';
+import type { OutboxEntry } from '../../core/offline/outbox.storage';
 
-type Product = {
-  id: string;
-  sku: string;
-  name: string;
-  sellingPrice?: number | null;
-  active: boolean;
-};
-
-type SalesDeduction = {
-  id: string;
-  batchId: string;
-  batchNumber: string;
-  expiryDate: string;
-  quantity: number;
-};
-
-type SalesOrderLine = {
-  id: string;
-  productId: string;
-  sku: string;
-  productName: string;
-  quantity: number;
-  location: string;
-  unitPrice: number;
-  deductions: SalesDeduction[];
-};
-
-type SalesOrder = {
-  id: string;
-  customer?: string | null;
-  referenceNumber?: string | null;
-  soldAt: string;
-  soldBy?: string | null;
-  lines: SalesOrderLine[];
-};
-
-type SalesOrdersQueryResult = { salesOrders: SalesOrder[] };
-type CreateSaleMutationResult = { createSale: SalesOrder };
-type ProductsQueryResult = { products: Product[] };
+type Product = ProductOptionsQuery['products'][number];
+
+type ScannedLine = Pick<Product, 'id' | 'name' | 'sellingPrice' | 'unitOfMeasure' | 'units' | 'saleUnit'>;
+
+type SalesOrder = SalesOrderFieldsFragment;
+
+const PICKER_LIMIT = 8;
+
+type PendingSale = Extract<OutboxEntry, { operation: 'createSale' }>;
 
 @Component({
   selector: 'cis-sales-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, ModalComponent, ConfirmDialogComponent, MoneyPipe],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    ModalComponent,
+    ConfirmDialogComponent,
+    CameraScannerComponent,
+    MoneyPipe,
+    FileUrlPipe,
+    CanDirective
+  ],
   templateUrl: './sales.page.html',
   styleUrl: './sales.page.scss'
 })
 export class SalesPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
+  readonly outbox = inject(OutboxService);
+  private readonly scanner = inject(ScannerService);
 
   loading = signal(false);
   error = signal<string | null>(null);
@@ -65,14 +65,26 @@ export class SalesPage {
   createOpen = signal(false);
 
   editingOrderId = signal<string | null>(null);
+  editingOutboxId = signal<string | null>(null);
   detailsOrderId = signal<string | null>(null);
 
   confirmDeleteOpen = signal(false);
   pendingDeleteOrderId = signal<string | null>(null);
 
+  confirmDiscardOpen = signal(false);
+  pendingDiscardId = signal<string | null>(null);
+
+  pendingSales = computed(() =>
+    this.outbox.entries().flatMap((e): PendingSale[] => (e.operation === 'createSale' ? [e] : []))
+  );
+
   products = signal<Product[]>([]);
   productQuery = signal('');
 
+  cameraOpen = signal(false);
+  lastScanned = signal<string | null>(null);
+  readonly cameraSupported = this.scanner.cameraSupported();
+
   filteredProducts = computed(() => {
     const q = this.productQuery().trim().toLowerCase();
     const all = this.products().filter((p) => p.active);
@@ -84,7 +96,11 @@ export class SalesPage {
     });
   });
 
-  lines = signal<Array<{ productId: number; quantity: number; unitPrice: number; location?: string | null }>>([]);
+  pickerProducts = computed(() => (this.productQuery().trim() ? this.filteredProducts().slice(0, PICKER_LIMIT) : []));
+
+  lines = signal<
+    Array<{ productId: number; quantity: number; unit?: string | null; unitPrice: number; location?: string | null }>
+  >([]);
 
   displayLines = computed(() => {
     const byId = new Map(this.products().map((p) => [+p.id, p] as const));
@@ -95,6 +111,9 @@ export class SalesPage {
   });
 
   private readonly fb = inject(FormBuilder);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly route = inject(ActivatedRoute);
+  private ordersSub?: Subscription;
 
   headerForm = this.fb.group({
     customer: [''],
@@ -104,6 +123,7 @@ export class SalesPage {
   lineForm = this.fb.group({
     productId: [null as number | null, [Validators.required, Validators.min(1)]],
     quantity: [1 as number, [Validators.required, Validators.min(1)]],
+    unit: [''],
     unitPrice: [0 as number, [Validators.required, Validators.min(0)]],
     location: ['MAIN']
   });
@@ -112,6 +132,11 @@ export class SalesPage {
     this.perm.load();
     this.loadProducts();
     this.load();
+    this.detailsOrderId.set(this.route.snapshot.queryParamMap.get('id'));
+
+    this.scanner.scans.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((code) => {
+      if (this.createOpen() && !this.cameraOpen()) this.onScan(code);
+    });
   }
 
   openDeleteConfirm(id: string): void {
@@ -132,6 +157,24 @@ export class SalesPage {
     this.deleteSale(id);
   }
 
+  openDiscardConfirm(id: string): void {
+    this.pendingDiscardId.set(id);
+    this.confirmDiscardOpen.set(true);
+  }
+
+  cancelDiscardConfirm(): void {
+    this.confirmDiscardOpen.set(false);
+    this.pendingDiscardId.set(null);
+  }
+
+  confirmDiscard(): void {
+    const id = this.pendingDiscardId();
+    if (!id) return;
+    this.confirmDiscardOpen.set(false);
+    this.pendingDiscardId.set(null);
+    this.outbox.discard(id);
+  }
+
   toggleDetails(o: SalesOrder): void {
     const id = String(o.id);
     this.detailsOrderId.set(this.detailsOrderId() === id ? null : id);
@@ -140,57 +183,79 @@ export class SalesPage {
   openCreate(): void {
     this.error.set(null);
     this.editingOrderId.set(null);
+    this.editingOutboxId.set(null);
     this.headerForm.reset({ customer: '', referenceNumber: '' });
-    this.lineForm.reset({ productId: null, quantity: 1, unitPrice: 0, location: 'MAIN' });
+    this.lineForm.reset({ productId: null, quantity: 1, unit: '', unitPrice: 0, location: 'MAIN' });
     this.lines.set([]);
     this.productQuery.set('');
+    this.lastScanned.set(null);
     this.createOpen.set(true);
   }
 
   openEdit(o: SalesOrder): void {
     this.error.set(null);
     this.editingOrderId.set(String(o.id));
+    this.editingOutboxId.set(null);
     this.headerForm.reset({
       customer: o.customer ?? '',
       referenceNumber: o.referenceNumber ?? ''
     });
-    this.lineForm.reset({ productId: null, quantity: 1, unitPrice: 0, location: 'MAIN' });
+    this.lineForm.reset({ productId: null, quantity: 1, unit: '', unitPrice: 0, location: 'MAIN' });
     this.lines.set(
       (o.lines ?? []).map((l) => ({
         productId: Number(l.productId),
         quantity: Number(l.quantity ?? 0),
+        unit: l.unit ?? null,
         unitPrice: Number(l.unitPrice ?? 0),
         location: (l.location?.trim() ? String(l.location).trim() : 'MAIN')
       }))
     );
     this.productQuery.set('');
+    this.lastScanned.set(null);
+    this.createOpen.set(true);
+  }
+
+  openResolve(p: PendingSale): void {
+    this.error.set(null);
+    this.editingOrderId.set(null);
+    this.editingOutboxId.set(p.id);
+    this.headerForm.reset({
+      customer: p.input.customer ?? '',
+      referenceNumber: p.input.referenceNumber ?? ''
+    });
+    this.lineForm.reset({ productId: null, quantity: 1, unit: '', unitPrice: 0, location: 'MAIN' });
+    this.lines.set(
+      p.input.lines.map((l) => ({
+        productId: Number(l.productId),
+        quantity: Number(l.quantity ?? 0),
+        unit: l.unit ?? null,
+        unitPrice: Number(l.unitPrice ?? 0),
+        location: l.location ?? null
+      }))
+    );
+    this.productQuery.set('');
+    this.lastScanned.set(null);
     this.createOpen.set(true);
   }
 
   closeCreate(): void {
     this.createOpen.set(false);
     this.editingOrderId.set(null);
+    this.editingOutboxId.set(null);
   }
 
   loadProducts(): void {
-    const q = `query Products($filter: ProductFilter) {
-      products(filter: $filter) {
-        id
-        sku
-        name
-        sellingPrice
-        active
-      }
-    }`;
-
-    this.gql.request<ProductsQueryResult>(q, { filter: null }).subscribe({
-      next: (res) => {
-        this.products.set(res.products);
-      },
-      error: () => {
-        this.products.set([]);
-      }
-    });
+    this.gql
+      .watch(ProductOptionsDocument, { filter: null })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.products.set(res.products);
+        },
+        error: () => {
+          this.products.set([]);
+        }
+      });
   }
 
   onProductChanged(): void {
@@ -201,7 +266,80 @@ export class SalesPage {
     const p = this.products().find((x) => Number(x.id) === productId);
     if (!p) return;
 
-    this.lineForm.patchValue({ unitPrice: Number(p.sellingPrice ?? 0) });
+    const unit = this.defaultUnit(p);
+    this.lineForm.patchValue({ unit: unit ?? '', unitPrice: this.priceFor(p, unit) });
+  }
+
+  pickProduct(p: Product): void {
+    this.lineForm.patchValue({ productId: Number(p.id) });
+    this.productQuery.set('');
+    this.onProductChanged();
+  }
+
+  onUnitChanged(): void {
+    const p = this.lineProduct();
+    if (!p) return;
+    this.lineForm.patchValue({ unitPrice: this.priceFor(p, this.lineForm.controls.unit.value) });
+  }
+
+  lineProduct(): Product | null {
+    const productId = Number(this.lineForm.controls.productId.value ?? 0);
+    return this.products().find((x) => Number(x.id) === productId) ?? null;
+  }
+
+  lineUnits(): UnitFactor[] {
+    const p = this.lineProduct();
+    return p ? unitOptions(p.unitOfMeasure, p.units) : [];
+  }
+
+  baseQuantityHint(): string | null {
+    const p = this.lineProduct();
+    const unit = this.lineForm.controls.unit.value;
+    if (!p?.unitOfMeasure || !unit || unit === p.unitOfMeasure) return null;
+    const quantity = Number(this.lineForm.controls.quantity.value ?? 0);
+    return `= ${toBaseQuantity(quantity, unit, p.units)} ${p.unitOfMeasure}`;
+  }
+
+  baseUnitOf(productId: string | number): string | null {
+    return this.products().find((x) => Number(x.id) === Number(productId))?.unitOfMeasure ?? null;
+  }
+
+  private defaultUnit(p: ScannedLine): string | null {
+    return p.saleUnit ?? p.unitOfMeasure ?? null;
+  }
+
+  private priceFor(p: ScannedLine, unit: string | null | undefined): number {
+    return Number(p.sellingPrice ?? 0) * unitFactor(p.units, unit);
+  }
+
+  onScan(code: string): void {
+    const local = findByCode(this.products().filter((p) => p.active), code);
+    if (local) {
+      this.addScanned(local);
+      return;
+    }
+
+    this.scanner.resolve(code).subscribe({
+      next: (p) => {
+        if (p?.active) this.addScanned(p);
+        else this.error.set(`No active product matches ${code}`);
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to look up product');
+      }
+    });
+  }
+
+  onSearchEnter(event: Event): void {
+    if (event.defaultPrevented) return;
+    event.preventDefault();
+    const code = this.productQuery().trim();
+    if (code) this.onScan(code);
+  }
+
+  onCameraDetected(code: string): void {
+    this.cameraOpen.set(false);
+    this.onScan(code);
   }
 
   lineTotal(quantity: number | null | undefined, unitPrice: number | null | undefined): number {
@@ -224,22 +362,28 @@ export class SalesPage {
     return (o.lines ?? []).reduce((sum, l) => sum + Number(l.quantity ?? 0) * Number(l.unitPrice ?? 0), 0);
   }
 
+  pendingTotalValue(p: PendingSale): number {
+    return p.input.lines.reduce((sum, l) => sum + Number(l.quantity ?? 0) * Number(l.unitPrice ?? 0), 0);
+  }
+
   load(): void {
     this.loading.set(true);
     this.error.set(null);
 
-    const q = `query { salesOrders { id customer referenceNumber soldAt soldBy lines { id productId sku productName quantity location unitPrice deductions { id batchId batchNumber expiryDate quantity } } } }`;
-
-    this.gql.request<SalesOrdersQueryResult>(q).subscribe({
-      next: (res) => {
-        this.orders.set(res.salesOrders);
-        this.loading.set(false);
-      },
-      error: (e: unknown) => {
-        this.error.set(e instanceof Error ? e.message : 'Failed to load sales orders');
-        this.loading.set(false);
-      }
-    });
+    this.ordersSub?.unsubscribe();
+    this.ordersSub = this.gql
+      .watch(SalesOrdersDocument)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (res) => {
+          this.orders.set(res.salesOrders);
+          this.loading.set(false);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to load sales orders');
+          this.loading.set(false);
+        }
+      });
   }
 
   addLine(): void {
@@ -274,12 +418,30 @@ export class SalesPage {
       {
         productId,
         quantity,
+        unit: raw.unit || null,
         unitPrice,
         location: (raw.location?.trim() ? String(raw.location).trim() : null)
       }
     ]);
 
-    this.lineForm.reset({ productId: null, quantity: 1, unitPrice: 0, location: 'MAIN' });
+    this.lineForm.reset({ productId: null, quantity: 1, unit: '', unitPrice: 0, location: 'MAIN' });
+  }
+
+  private addScanned(p: ScannedLine): void {
+    const productId = Number(p.id);
+    const unit = this.defaultUnit(p);
+    const lines = this.lines();
+    const index = lines.findIndex((l) => l.productId === productId && (l.unit ?? null) === unit);
+
+    if (index >= 0) {
+      this.lines.set(lines.map((l, i) => (i === index ? { ...l, quantity: l.quantity + 1 } : l)));
+    } else {
+      this.lines.set([...lines, { productId, quantity: 1, unit, unitPrice: this.priceFor(p, unit), location: 'MAIN' }]);
+    }
+
+    this.productQuery.set('');
+    this.error.set(null);
+    this.lastScanned.set(p.name);
   }
 
   removeLine(index: number): void {
@@ -296,22 +458,31 @@ export class SalesPage {
       return;
     }
 
+    const header = this.headerForm.getRawValue();
+
+    const outboxId = this.editingOutboxId();
+    if (outboxId) {
+      this.outbox.resolve(outboxId, {
+        operation: 'createSale',
+        input: {
+          customer: header.customer || null,
+          referenceNumber: header.referenceNumber || null,
+          lines: this.lines()
+        }
+      });
+      this.headerForm.reset({ customer: '', referenceNumber: '' });
+      this.lines.set([]);
+      this.closeCreate();
+      return;
+    }
+
     this.loading.set(true);
     this.error.set(null);
 
-    const header = this.headerForm.getRawValue();
-
     const editingId = this.editingOrderId();
     if (editingId) {
-      const mutation = `mutation UpdateSale($input: UpdateSaleInput!) {
-        updateSale(input: $input) {
-          id soldAt
-          lines { id productId sku productName quantity location unitPrice deductions { id batchId batchNumber expiryDate quantity } }
-        }
-      }`;
-
       this.gql
-        .request<{ updateSale: SalesOrder }>(mutation, {
+        .request(UpdateSaleDocument, {
           input: {
             id: editingId,
             customer: header.customer || null,
@@ -325,7 +496,7 @@ export class SalesPage {
             this.lines.set([]);
             this.createOpen.set(false);
             this.editingOrderId.set(null);
-            this.load();
+            this.loading.set(false);
           },
           error: (e: unknown) => {
             this.error.set(e instanceof Error ? e.message : 'Failed to update sale');
@@ -335,20 +506,11 @@ export class SalesPage {
       return;
     }
 
-    const mutation = `mutation CreateSale($input: CreateSaleInput!) {
-      createSale(input: $input) {
-        id soldAt
-        lines { id productId sku productName quantity location unitPrice deductions { id batchId batchNumber expiryDate quantity } }
-      }
-    }`;
-
-    this.gql
-      .request<CreateSaleMutationResult>(mutation, {
-        input: {
-          customer: header.customer || null,
-          referenceNumber: header.referenceNumber || null,
-          lines: this.lines()
-        }
+    this.outbox
+      .createSale({
+        customer: header.customer || null,
+        referenceNumber: header.referenceNumber || null,
+        lines: this.lines()
       })
       .subscribe({
         next: () => {
@@ -356,7 +518,7 @@ export class SalesPage {
           this.lines.set([]);
           this.createOpen.set(false);
           this.editingOrderId.set(null);
-          this.load();
+          this.loading.set(false);
         },
         error: (e: unknown) => {
           this.error.set(e instanceof Error ? e.message : 'Failed to create sale');
@@ -369,10 +531,9 @@ export class SalesPage {
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeleteSale($input: DeleteSaleInput!) { deleteSale(input: $input) }`;
-    this.gql.request<{ deleteSale: boolean }>(mutation, { input: { id } }).subscribe({
+    this.gql.request(DeleteSaleDocument, { input: { id } }).subscribe({
       next: () => {
-        this.load();
+        this.loading.set(false);
       },
       error: (e: unknown) => {
         this.error.set(e instanceof Error ? e.message : 'Failed to delete sale');
@@ -1,6 +1,7 @@
 import { CommonModule } from '@angular/common';
 import { Component, EventEmitter, Input, Output } from '@angular/core';
 import { RouterLink } from '@angular/router';
+import { IDLE_LOCK_OPTIONS } from '../../core/auth/idle-lock.service';
 
 type ShellHeaderUser = {
   id: string;
@@ -26,12 +27,24 @@ export class ShellHeaderComponent {
   @Input({ required: true }) notificationsOpen = false;
   @Input({ required: true }) userMenuOpen = false;
 
+  @Input({ required: true }) online = true;
+  @Input({ required: true }) pendingSyncCount = 0;
+  @Input({ required: true }) syncConflictCount = 0;
+  @Input({ required: true }) otherUsersSyncCount = 0;
+
+  @Input({ required: true }) idleLockMinutes = 0;
+  readonly idleLockOptions = IDLE_LOCK_OPTIONS;
+
   @Output() toggleNotifications = new EventEmitter<void>();
   @Output() toggleUserMenu = new EventEmitter<void>();
   @Output() closeMenus = new EventEmitter<void>();
   @Output() changePassword = new EventEmitter<void>();
   @Output() resetUserPassword = new EventEmitter<void>();
+  @Output() mySessions = new EventEmitter<void>();
   @Output() logout = new EventEmitter<void>();
+  @Output() lockScreen = new EventEmitter<void>();
+  @Output() switchUser = new EventEmitter<void>();
+  @Output() idleLockMinutesChange = new EventEmitter<number>();
 
   @Output() toggleSidebar = new EventEmitter<void>();
 
@@ -59,6 +72,22 @@ export class ShellHeaderComponent {
     this.resetUserPassword.emit();
   }
 
+  onMySessions(): void {
+    this.mySessions.emit();
+  }
+
+  onSwitchUser(): void {
+    this.switchUser.emit();
+  }
+
+  onLockScreen(): void {
+    this.lockScreen.emit();
+  }
+
+  onIdleLockMinutesChange(value: string): void {
+    this.idleLockMinutesChange.emit(Number(value));
+  }
+
   onToggleSidebar(): void {
     this.toggleSidebar.emit();
   }
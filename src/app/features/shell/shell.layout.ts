@@ -1,58 +1,55 @@
-import { Component, DestroyRef, computed, signal } from '@angular/core';
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { NavigationEnd, Router, RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { AuthService } from '../../core/auth/auth.service';
+import { IdleLockService } from '../../core/auth/idle-lock.service';
+import type { RoutePermission } from '../../core/auth/permission.guard';
+import { SessionStore } from '../../core/auth/session.store';
+import { CanPipe } from '../../shared/pipes/can.pipe';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  AlertCountsDocument,
+  ChangeMyPasswordDocument,
+  MySessionsDocument,
+  PinLoginDocument,
+  type PinUsersQuery,
+  PinUsersDocument,
+  ResetUserPasswordDocument,
+  RevokeOtherSessionsDocument,
+  RevokeSessionDocument,
+  type UserOptionsQuery,
+  UserOptionsDocument,
+  type UserSessionFieldsFragment,
+  VerifyMyPasswordDocument,
+  VerifyMyPinDocument
+} from '../../core/graphql/generated/graphql';
+import { OutboxService } from '../../core/offline/outbox.service';
+import { SessionsTableComponent } from '../../shared/ui/sessions-table/sessions-table.component';
+import { TemporaryPasswordDialogComponent } from '../../shared/ui/temporary-password-dialog/temporary-password-dialog.component';
+import { passwordIssues, passwordStrength } from '../../shared/utils/password.utils';
 import { ShellHeaderComponent } from './shell-header.component';
 
-type MeQueryResult = {
-  me: {
-    id: string;
-    name: string;
-    email: string;
-    roles: string[];
-  } | null;
-};
-
-type UserPermission = {
-  module: string;
-  canView: boolean;
-  canCreate: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-};
-
-type MyPermissionsQueryResult = {
-  myPermissions: UserPermission[];
-};
-
-type ExpiryAlertsQueryResult = {
-  expiryAlerts: Array<{ productId: string }>;
-};
-
-type LowStockAlertsQueryResult = {
-  lowStockAlerts: Array<{ productId: string }>;
-};
-
-type AdminUser = {
-  id: string;
-  name: string;
-  email: string;
-};
-
-type UsersQueryResult = {
-  users: AdminUser[];
-};
+type AdminUser = UserOptionsQuery['users'][number];
+
+type UnlockMode = 'PASSWORD' | 'PIN';
+
+type PinUser = PinUsersQuery['pinUsers'][number];
+
+type UserSession = UserSessionFieldsFragment;
 
 @Component({
   selector: 'cis-shell',
   standalone: true,
-  imports: [CommonModule, RouterLink, RouterLinkActive, RouterOutlet, ShellHeaderComponent],
+  imports: [CommonModule, RouterLink, RouterLinkActive, RouterOutlet, ShellHeaderComponent, CanPipe, SessionsTableComponent, TemporaryPasswordDialogComponent],
   templateUrl: './shell.layout.html',
   styleUrl: './shell.layout.scss'
 })
 export class ShellLayout {
+  readonly session = inject(SessionStore);
+  readonly outbox = inject(OutboxService);
+  readonly idle = inject(IdleLockService);
+
   isAuthed = computed(() => this.auth.isAuthenticated());
 
   currentUrl = signal<string>('/');
@@ -60,32 +57,57 @@ export class ShellLayout {
 
   sidebarOpen = signal(true);
 
-  user = signal<MeQueryResult['me']>(null);
+  user = this.session.user;
   userMenuOpen = signal(false);
   notificationsOpen = signal(false);
   notificationsCount = signal(0);
 
-  myPermissions = signal<UserPermission[]>([]);
-
   changePasswordOpen = signal(false);
   changePasswordCurrent = signal('');
   changePasswordNew = signal('');
+  changePasswordConfirm = signal('');
   changePasswordLoading = signal(false);
   changePasswordError = signal<string | null>(null);
   changePasswordSuccess = signal<string | null>(null);
+  changePasswordIssues = computed(() =>
+    passwordIssues(this.changePasswordNew(), [this.user()?.name ?? '', this.user()?.email ?? ''])
+  );
+  changePasswordStrength = computed(() => passwordStrength(this.changePasswordNew()));
+  changePasswordMismatch = computed(
+    () => !!this.changePasswordConfirm() && this.changePasswordConfirm() !== this.changePasswordNew()
+  );
+  mustChangePassword = computed(() => !!this.user()?.mustChangePassword);
 
   resetUserPasswordOpen = signal(false);
   resetUserPasswordLoading = signal(false);
   resetUserPasswordError = signal<string | null>(null);
   resetUserPasswordSuccess = signal<string | null>(null);
   resetUserId = signal('');
-  resetNewPassword = signal('');
+  resetTemporaryPassword = signal<{ user: string; password: string } | null>(null);
   adminUsers = signal<AdminUser[]>([]);
 
+  mySessionsOpen = signal(false);
+  mySessions = signal<UserSession[]>([]);
+  mySessionsLoading = signal(false);
+  mySessionsError = signal<string | null>(null);
+  revokingSessionId = signal<string | null>(null);
+
+  unlockMode = signal<UnlockMode>('PASSWORD');
+  unlockSecret = signal('');
+  unlockLoading = signal(false);
+  unlockError = signal<string | null>(null);
+
+  switchUserOpen = signal(false);
+  switchUserLoading = signal(false);
+  switchUserError = signal<string | null>(null);
+  switchUserTarget = signal<PinUser | null>(null);
+  switchUserPin = signal('');
+  pinUsers = signal<PinUser[]>([]);
+
   currentYear = new Date().getFullYear();
 
   constructor(
-    private readonly auth: AuthService,
+    readonly auth: AuthService,
     private readonly gql: GraphqlService,
     private readonly router: Router,
     private readonly destroyRef: DestroyRef
@@ -101,61 +123,34 @@ export class ShellLayout {
     });
 
     if (this.isAuthed()) {
-      this.loadMe();
-      this.loadMyPermissions();
+      this.session.load();
       this.refreshNotifications();
     }
   }
 
-  loadMe(): void {
-    const query = `query Me { me { id name email roles } }`;
-    this.gql.request<MeQueryResult>(query).subscribe({
-      next: (res) => {
-        this.user.set(res.me);
-      },
-      error: () => {
-        this.user.set(null);
-      }
-    });
-  }
-
-  loadMyPermissions(): void {
-    const query = `query MyPermissions { myPermissions { module canView canCreate canEdit canDelete } }`;
-    this.gql.request<MyPermissionsQueryResult>(query).subscribe({
-      next: (res) => this.myPermissions.set(res.myPermissions ?? []),
-      error: () => this.myPermissions.set([])
-    });
-  }
-
-  canView(module: string): boolean {
-    const u = this.user();
-    if (u?.roles?.includes('ADMIN')) return true;
-    const m = String(module).toUpperCase();
-    const p = this.myPermissions().find((x) => String(x.module).toUpperCase() === m);
-    return Boolean(p?.canView);
-  }
-
   openChangePassword(): void {
     this.changePasswordError.set(null);
     this.changePasswordSuccess.set(null);
     this.changePasswordCurrent.set('');
     this.changePasswordNew.set('');
+    this.changePasswordConfirm.set('');
     this.changePasswordOpen.set(true);
   }
 
   closeChangePassword(): void {
+    if (this.mustChangePassword()) return;
     this.changePasswordOpen.set(false);
   }
 
   submitChangePassword(): void {
     if (!this.changePasswordCurrent().trim() || !this.changePasswordNew().trim()) return;
+    if (this.changePasswordIssues().length || this.changePasswordNew() !== this.changePasswordConfirm()) return;
     this.changePasswordLoading.set(true);
     this.changePasswordError.set(null);
     this.changePasswordSuccess.set(null);
 
-    const mutation = `mutation ChangeMyPassword($input: ChangeMyPasswordInput!) { changeMyPassword(input: $input) }`;
     this.gql
-      .request<{ changeMyPassword: boolean }>(mutation, {
+      .request(ChangeMyPasswordDocument, {
         input: {
           currentPassword: this.changePasswordCurrent(),
           newPassword: this.changePasswordNew()
@@ -167,7 +162,9 @@ export class ShellLayout {
           this.changePasswordLoading.set(false);
           this.changePasswordCurrent.set('');
           this.changePasswordNew.set('');
+          this.changePasswordConfirm.set('');
           this.changePasswordOpen.set(false);
+          if (this.mustChangePassword()) this.session.refresh();
         },
         error: (e: unknown) => {
           this.changePasswordError.set(e instanceof Error ? e.message : 'Failed to update password');
@@ -183,11 +180,9 @@ export class ShellLayout {
     this.resetUserPasswordError.set(null);
     this.resetUserPasswordSuccess.set(null);
     this.resetUserId.set('');
-    this.resetNewPassword.set('');
     this.resetUserPasswordOpen.set(true);
 
-    const qUsers = `query { users { id name email } }`;
-    this.gql.request<UsersQueryResult>(qUsers).subscribe({
+    this.gql.request(UserOptionsDocument).subscribe({
       next: (res) => this.adminUsers.set(res.users ?? []),
       error: () => this.adminUsers.set([])
     });
@@ -198,27 +193,26 @@ export class ShellLayout {
   }
 
   submitResetUserPassword(): void {
-    if (!this.resetUserId().trim() || !this.resetNewPassword().trim()) return;
+    if (!this.resetUserId().trim()) return;
     this.resetUserPasswordLoading.set(true);
     this.resetUserPasswordError.set(null);
     this.resetUserPasswordSuccess.set(null);
 
-    const mutation = `mutation ResetUserPassword($input: ResetUserPasswordInput!) {
-      resetUserPassword(input: $input) { id }
-    }`;
-
     this.gql
-      .request<{ resetUserPassword: { id: string } }>(mutation, {
+      .request(ResetUserPasswordDocument, {
         input: {
-          userId: this.resetUserId(),
-          newPassword: this.resetNewPassword()
+          userId: this.resetUserId()
         }
       })
       .subscribe({
-        next: () => {
+        next: (res) => {
           this.resetUserPasswordSuccess.set('Password reset');
           this.resetUserPasswordLoading.set(false);
           this.resetUserPasswordOpen.set(false);
+          this.resetTemporaryPassword.set({
+            user: res.resetUserPassword.user.name,
+            password: res.resetUserPassword.temporaryPassword
+          });
         },
         error: (e: unknown) => {
           this.resetUserPasswordError.set(e instanceof Error ? e.message : 'Failed to reset password');
@@ -227,6 +221,188 @@ export class ShellLayout {
       });
   }
 
+  openMySessions(): void {
+    this.mySessions.set([]);
+    this.mySessionsOpen.set(true);
+    this.loadMySessions();
+  }
+
+  closeMySessions(): void {
+    this.mySessionsOpen.set(false);
+  }
+
+  loadMySessions(): void {
+    this.mySessionsLoading.set(true);
+    this.mySessionsError.set(null);
+
+    this.gql.request(MySessionsDocument).subscribe({
+      next: (res) => {
+        this.mySessions.set(res.mySessions ?? []);
+        this.mySessionsLoading.set(false);
+      },
+      error: (e: unknown) => {
+        this.mySessionsError.set(e instanceof Error ? e.message : 'Failed to load sessions');
+        this.mySessionsLoading.set(false);
+      }
+    });
+  }
+
+  revokeMySession(target: UserSession): void {
+    this.revokingSessionId.set(target.id);
+    this.mySessionsError.set(null);
+
+    this.gql.request(RevokeSessionDocument, { sessionId: target.id }).subscribe({
+      next: () => {
+        if (target.current) {
+          this.logout();
+          return;
+        }
+        this.mySessions.set(this.mySessions().filter((s) => s.id !== target.id));
+        this.revokingSessionId.set(null);
+      },
+      error: (e: unknown) => {
+        this.mySessionsError.set(e instanceof Error ? e.message : 'Failed to revoke session');
+        this.revokingSessionId.set(null);
+      }
+    });
+  }
+
+  revokeOtherSessions(): void {
+    this.mySessionsLoading.set(true);
+    this.mySessionsError.set(null);
+
+    this.gql.request(RevokeOtherSessionsDocument).subscribe({
+      next: () => {
+        this.mySessions.set(this.mySessions().filter((s) => s.current));
+        this.mySessionsLoading.set(false);
+      },
+      error: (e: unknown) => {
+        this.mySessionsError.set(e instanceof Error ? e.message : 'Failed to sign out other sessions');
+        this.mySessionsLoading.set(false);
+      }
+    });
+  }
+
+  lockScreen(): void {
+    this.closeMenus();
+    this.unlockSecret.set('');
+    this.unlockError.set(null);
+    this.idle.lock();
+  }
+
+  setUnlockMode(mode: UnlockMode): void {
+    this.unlockMode.set(mode);
+    this.unlockSecret.set('');
+    this.unlockError.set(null);
+  }
+
+  submitUnlock(): void {
+    const secret = this.unlockSecret().trim();
+    if (!secret || this.unlockLoading()) return;
+
+    this.unlockLoading.set(true);
+    this.unlockError.set(null);
+
+    const done = () => {
+      this.unlockLoading.set(false);
+      this.unlockSecret.set('');
+      this.idle.unlock();
+    };
+    const failed = (e: unknown, fallback: string) => {
+      this.unlockError.set(e instanceof Error ? e.message : fallback);
+      this.unlockLoading.set(false);
+    };
+
+    if (this.unlockMode() === 'PIN') {
+      this.gql.request(VerifyMyPinDocument, { pin: secret }).subscribe({
+        next: (res) => (res.verifyMyPin ? done() : failed(null, 'Incorrect PIN')),
+        error: (e: unknown) => failed(e, 'Failed to verify PIN')
+      });
+      return;
+    }
+
+    this.gql.request(VerifyMyPasswordDocument, { password: this.unlockSecret() }).subscribe({
+      next: (res) => (res.verifyMyPassword ? done() : failed(null, 'Incorrect password')),
+      error: (e: unknown) => failed(e, 'Failed to verify password')
+    });
+  }
+
+  openSwitchUser(): void {
+    this.closeMenus();
+    this.switchUserError.set(null);
+    this.switchUserTarget.set(null);
+    this.switchUserPin.set('');
+    this.switchUserOpen.set(true);
+    this.switchUserLoading.set(true);
+
+    this.gql.request(PinUsersDocument).subscribe({
+      next: (res) => {
+        this.pinUsers.set(res.pinUsers ?? []);
+        this.switchUserLoading.set(false);
+      },
+      error: (e: unknown) => {
+        this.pinUsers.set([]);
+        this.switchUserError.set(e instanceof Error ? e.message : 'Failed to load users');
+        this.switchUserLoading.set(false);
+      }
+    });
+  }
+
+  closeSwitchUser(): void {
+    this.switchUserOpen.set(false);
+    this.switchUserTarget.set(null);
+    this.switchUserPin.set('');
+  }
+
+  selectSwitchUser(user: PinUser | null): void {
+    this.switchUserTarget.set(user);
+    this.switchUserPin.set('');
+    this.switchUserError.set(null);
+  }
+
+  submitSwitchUser(): void {
+    const target = this.switchUserTarget();
+    const pin = this.switchUserPin().trim();
+    if (!target || !pin || this.switchUserLoading()) return;
+
+    this.switchUserLoading.set(true);
+    this.switchUserError.set(null);
+
+    this.gql.request(PinLoginDocument, { input: { userId: target.id, pin } }).subscribe({
+      next: (res) => {
+        this.auth.startSession(res.pinLogin.accessToken, res.pinLogin.refreshToken ?? null);
+        this.switchUserLoading.set(false);
+        this.closeSwitchUser();
+        this.idle.unlock();
+        this.onSessionChanged();
+      },
+      error: (e: unknown) => {
+        this.switchUserError.set(e instanceof Error ? e.message : 'Incorrect PIN');
+        this.switchUserPin.set('');
+        this.switchUserLoading.set(false);
+      }
+    });
+  }
+
+  private onSessionChanged(): void {
+    this.gql.resetStore().then(() => {
+      this.session.refresh().subscribe({
+        next: () => {
+          if (!this.canStayOnCurrentRoute()) this.router.navigateByUrl('/home');
+        },
+        error: () => this.router.navigateByUrl('/home')
+      });
+      this.refreshNotifications();
+    });
+  }
+
+  private canStayOnCurrentRoute(): boolean {
+    let route = this.router.routerState.snapshot.root;
+    while (route.firstChild) route = route.firstChild;
+    const { module, action } = route.data as Partial<RoutePermission>;
+    return !module || this.session.can(module, action ?? 'view');
+  }
+
   toggleUserMenu(): void {
     this.userMenuOpen.set(!this.userMenuOpen());
     if (this.userMenuOpen()) {
@@ -256,20 +432,9 @@ export class ShellLayout {
   }
 
   refreshNotifications(): void {
-    const expiryQuery = `query Expiry($days: Int!) { expiryAlerts(days: $days) { productId } }`;
-    const lowStockQuery = `query LowStock($threshold: Int!) { lowStockAlerts(threshold: $threshold) { productId } }`;
-
-    this.gql.request<ExpiryAlertsQueryResult>(expiryQuery, { days: 30 }).subscribe({
+    this.gql.request(AlertCountsDocument, { days: 30, threshold: 10 }).subscribe({
       next: (res) => {
-        const expiryCount = res.expiryAlerts.length;
-        this.gql.request<LowStockAlertsQueryResult>(lowStockQuery, { threshold: 10 }).subscribe({
-          next: (ls) => {
-            this.notificationsCount.set(expiryCount + ls.lowStockAlerts.length);
-          },
-          error: () => {
-            this.notificationsCount.set(expiryCount);
-          }
-        });
+        this.notificationsCount.set(res.expiryAlerts.length + res.lowStockAlerts.length);
       },
       error: () => {
         this.notificationsCount.set(0);
@@ -2,25 +2,9 @@ import { Component, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import { type StockMovementFieldsFragment, StockMovementsDocument } from '../../core/graphql/generated/graphql';
 
-type StockMovement = {
-  id: string;
-  type: string;
-  quantity: number;
-  createdAt: string;
-  createdBy?: string | null;
-  note?: string | null;
-  productId: string;
-  sku: string;
-  productName: string;
-  batchId: string;
-  batchNumber: string;
-  expiryDate: string;
-};
-
-type StockMovementsQueryResult = {
-  stockMovements: StockMovement[];
-};
+type StockMovement = StockMovementFieldsFragment;
 
 @Component({
   selector: 'cis-stock-movements-page',
@@ -50,16 +34,8 @@ export class StockMovementsPage {
 
     const { type } = this.filterForm.getRawValue();
 
-    const q = `query Movements($filter: StockMovementFilter) {
-      stockMovements(filter: $filter) {
-        id type quantity createdAt createdBy note
-        productId sku productName
-        batchId batchNumber expiryDate
-      }
-    }`;
-
     this.gql
-      .request<StockMovementsQueryResult>(q, {
+      .request(StockMovementsDocument, {
         filter: {
           type: type || null
         }
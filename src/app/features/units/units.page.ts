@@ -0,0 +1,162 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject, signal } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  UnitsDocument,
+  type UnitsQuery,
+  CreateUnitDocument,
+  DeleteUnitDocument,
+  UpdateUnitDocument
+} from '../../core/graphql/generated/graphql';
+import { CanDirective } from '../../shared/directives/can.directive';
+import { PermissionService } from '../../shared/services/permission.service';
+
+type Unit = UnitsQuery['units'][number];
+
+@Component({
+  selector: 'cis-units-page',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, CanDirective],
+  templateUrl: './units.page.html',
+  styleUrl: './units.page.scss'
+})
+export class UnitsPage {
+  private readonly perm = inject(PermissionService);
+
+  loading = signal(false);
+  error = signal<string | null>(null);
+  units = signal<Unit[]>([]);
+
+  createOpen = signal(false);
+
+  editingId = signal<string | null>(null);
+
+  private readonly fb = inject(FormBuilder);
+
+  createForm = this.fb.group({
+    name: ['', [Validators.required]],
+    description: ['']
+  });
+
+  editForm = this.fb.group({
+    name: ['', [Validators.required]],
+    description: [''],
+    active: [true, [Validators.required]]
+  });
+
+  constructor(private readonly gql: GraphqlService) {
+    this.perm.load();
+    this.load();
+  }
+
+  openCreate(): void {
+    this.error.set(null);
+    this.createForm.reset({ name: '', description: '' });
+    this.createOpen.set(true);
+  }
+
+  closeCreate(): void {
+    this.createOpen.set(false);
+  }
+
+  load(): void {
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql.request(UnitsDocument).subscribe({
+      next: (res) => {
+        this.units.set(res.units);
+        this.loading.set(false);
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to load');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  create(): void {
+    if (this.createForm.invalid) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    const raw = this.createForm.getRawValue();
+    const input = { name: raw.name ?? '', description: raw.description };
+
+    this.gql.request(CreateUnitDocument, { input }).subscribe({
+      next: () => {
+        this.createForm.reset({ name: '', description: '' });
+        this.createOpen.set(false);
+        this.load();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to create');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  startEdit(u: Unit): void {
+    this.editingId.set(u.id);
+    this.editForm.reset({
+      name: u.name,
+      description: u.description ?? '',
+      active: u.active
+    });
+  }
+
+  cancelEdit(): void {
+    this.editingId.set(null);
+  }
+
+  saveEdit(): void {
+    const id = this.editingId();
+    if (!id) return;
+    if (this.editForm.invalid) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    const raw = this.editForm.getRawValue();
+    const input = {
+      id,
+      name: raw.name,
+      description: raw.description,
+      active: raw.active
+    };
+
+    this.gql.request(UpdateUnitDocument, { input }).subscribe({
+      next: () => {
+        this.editingId.set(null);
+        this.load();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to update');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  delete(u: Unit): void {
+    const ok = confirm(`Delete unit "${u.name}"?`);
+    if (!ok) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql.request(DeleteUnitDocument, { input: { id: u.id } }).subscribe({
+      next: () => {
+        if (this.editingId() === u.id) {
+          this.editingId.set(null);
+        }
+        this.load();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to delete');
+        this.loading.set(false);
+      }
+    });
+  }
+}
@@ -1,113 +1,144 @@
-import { Component, inject, signal } from '@angular/core';
+import { Component, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import type { Observable } from 'rxjs';
+import { AuthService } from '../../core/auth/auth.service';
+import { SessionStore } from '../../core/auth/session.store';
 import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  type AdminUserFieldsFragment,
+  CreateRoleDocument,
+  CreateUserDocument,
+  DeleteRoleDocument,
+  ResetUserPasswordDocument,
+  RevokeSessionDocument,
+  RevokeUserSessionsDocument,
+  RoleDefinitionsDocument,
+  type RoleFieldsFragment,
+  SetUserActiveDocument,
+  SetUserPermissionsDocument,
+  SetUserPinDocument,
+  type TemporaryPasswordFieldsFragment,
+  UpdateRoleDocument,
+  UpdateUserDocument,
+  UserAccessDocument,
+  type UserPermissionFieldsFragment,
+  type UserSessionFieldsFragment,
+  UserSessionsDocument,
+  UsersDocument
+} from '../../core/graphql/generated/graphql';
+import { MODULES, type ModuleKey, VIEW_ONLY_MODULES } from '../../shared/models/permission';
+import { CanDirective } from '../../shared/directives/can.directive';
+import { CanPipe } from '../../shared/pipes/can.pipe';
 import { PermissionService } from '../../shared/services/permission.service';
+import { SessionsTableComponent } from '../../shared/ui/sessions-table/sessions-table.component';
+import { TemporaryPasswordDialogComponent } from '../../shared/ui/temporary-password-dialog/temporary-password-dialog.component';
+import {
+  applyOverrides,
+  isOverridden,
+  overridesFrom,
+  type PermissionFlag,
+  permissionMatrix
+} from '../../shared/utils/permission.utils';
 
-type AdminUser = {
-  id: string;
-  name: string;
-  email: string;
-  plainPassword?: string | null;
-  active: boolean;
-  roles: string[];
-};
-
-type UsersQueryResult = {
-  users: AdminUser[];
-};
-
-type RolesQueryResult = {
-  roles: string[];
-};
-
-type CreateUserResult = {
-  createUser: AdminUser;
-};
-
-type UpdateUserResult = {
-  updateUser: AdminUser;
-};
-
-type DeleteUserResult = {
-  deleteUser: boolean;
-};
-
-type UserPermission = {
-  module: string;
-  canView: boolean;
-  canCreate: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-};
-
-type UserPermissionsQueryResult = {
-  userPermissions: UserPermission[];
-};
-
-type SetUserPermissionsMutationResult = {
-  setUserPermissions: UserPermission[];
-};
+type AdminUser = AdminUserFieldsFragment;
+
+type UserPermission = UserPermissionFieldsFragment;
+
+type Role = RoleFieldsFragment;
+
+type TemporaryPassword = TemporaryPasswordFieldsFragment;
+
+type StatusFilter = 'ALL' | 'ACTIVE' | 'INACTIVE';
+
+type UserSession = UserSessionFieldsFragment;
 
 @Component({
   selector: 'cis-users-page',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, CanDirective, CanPipe, SessionsTableComponent, TemporaryPasswordDialogComponent],
   templateUrl: './users.page.html',
   styleUrl: './users.page.scss'
 })
 export class UsersPage {
-  readonly perm = inject(PermissionService);
+  private readonly perm = inject(PermissionService);
+  private readonly session = inject(SessionStore);
+  private readonly auth = inject(AuthService);
 
   loading = signal(false);
   error = signal<string | null>(null);
   success = signal<string | null>(null);
 
   users = signal<AdminUser[]>([]);
-  roles = signal<string[]>([]);
+  statusFilter = signal<StatusFilter>('ACTIVE');
+  roleFilter = signal('');
+  filteredUsers = computed(() => {
+    const status = this.statusFilter();
+    const role = this.roleFilter();
+    return this.users().filter(
+      (u) =>
+        (status === 'ALL' || u.active === (status === 'ACTIVE')) && (!role || u.roles.includes(role))
+    );
+  });
+  roleDefinitions = signal<Role[]>([]);
+  roles = computed(() => this.roleDefinitions().map((r) => r.name));
 
   createOpen = signal(false);
   editOpen = signal(false);
   editingUser = signal<AdminUser | null>(null);
-  deleteOpen = signal(false);
-  pendingDelete = signal<AdminUser | null>(null);
+  statusOpen = signal(false);
+  pendingStatus = signal<AdminUser | null>(null);
+  sessionsOpen = signal(false);
+  sessionsUser = signal<AdminUser | null>(null);
+  sessions = signal<UserSession[]>([]);
+  sessionsLoading = signal(false);
+  sessionsError = signal<string | null>(null);
+  revokingSessionId = signal<string | null>(null);
   permissionsOpen = signal(false);
+  pinOpen = signal(false);
+  pinUser = signal<AdminUser | null>(null);
+  resetPasswordOpen = signal(false);
+  pendingResetPassword = signal<AdminUser | null>(null);
+  temporaryPassword = signal<{ user: string; password: string } | null>(null);
 
   selectedUserId = signal<string>('');
   permissionsLoading = signal(false);
   permissions = signal<UserPermission[]>([]);
+  permissionsRole = signal<Role | null>(null);
+  roleDefaults = computed(() => permissionMatrix(this.permissionsRole()?.permissions ?? []));
+  overrideCount = computed(() => overridesFrom(this.permissions(), this.roleDefaults()).length);
+
+  roleEditorOpen = signal(false);
+  editingRoleName = signal<string | null>(null);
+  rolePermissions = signal<UserPermission[]>([]);
+  roleDeleteOpen = signal(false);
+  pendingRoleDelete = signal<Role | null>(null);
 
-  readonly modules: Array<{ key: string; label: string }> = [
-    { key: 'PRODUCTS', label: 'Products' },
-    { key: 'CATEGORIES', label: 'Categories' },
-    { key: 'INVENTORY', label: 'Inventory' },
-    { key: 'STOCK_MOVEMENTS', label: 'Stock Movements' },
-    { key: 'SALES', label: 'Sales' },
-    { key: 'MY_SALES', label: 'My Sales' },
-    { key: 'PURCHASING', label: 'Purchasing' },
-    { key: 'EXPENSES', label: 'Expenses' },
-    { key: 'EXPENSE_CATEGORIES', label: 'Expense Categories' },
-    { key: 'REPORTS', label: 'Reports' },
-    { key: 'PROFIT_MANAGEMENT', label: 'Profit Management' },
-    { key: 'USERS_ROLES', label: 'Users & Roles' }
-  ];
+  readonly modules = MODULES;
 
   private readonly fb = inject(FormBuilder);
 
   form = this.fb.group({
     name: ['', [Validators.required]],
     email: ['', [Validators.required, Validators.email]],
-    password: ['', [Validators.required]],
     role: ['STOREKEEPER', [Validators.required]]
   });
 
   editForm = this.fb.group({
     name: ['', [Validators.required]],
     email: ['', [Validators.required, Validators.email]],
-    password: [''],
     role: ['STOREKEEPER', [Validators.required]]
   });
 
+  roleForm = this.fb.group({
+    name: ['', [Validators.required, Validators.pattern(/^[A-Za-z][A-Za-z0-9 _-]*$/)]],
+    description: ['']
+  });
+
+  pinForm = this.fb.group({
+    pin: ['', [Validators.required, Validators.pattern(/^\d{4,6}$/)]]
+  });
+
   constructor(private readonly gql: GraphqlService) {
     this.perm.load();
     this.load();
@@ -121,7 +152,7 @@ export class UsersPage {
 
   closeCreate(): void {
     this.createOpen.set(false);
-    this.form.reset({ name: '', email: '', password: '', role: 'STOREKEEPER' });
+    this.form.reset({ name: '', email: '', role: 'STOREKEEPER' });
   }
 
   openPermissions(userId: string): void {
@@ -133,21 +164,13 @@ export class UsersPage {
     this.permissionsOpen.set(false);
     this.selectedUserId.set('');
     this.permissions.set([]);
-  }
-
-  private defaultPermissions(): UserPermission[] {
-    return this.modules.map((m) => ({
-      module: m.key,
-      canView: false,
-      canCreate: false,
-      canEdit: false,
-      canDelete: false
-    }));
+    this.permissionsRole.set(null);
   }
 
   onSelectUserForPermissions(userId: string): void {
     this.selectedUserId.set(String(userId || ''));
-    this.permissions.set(this.defaultPermissions());
+    this.permissionsRole.set(null);
+    this.permissions.set(permissionMatrix([]));
     if (!this.selectedUserId()) return;
     this.loadUserPermissions();
   }
@@ -160,44 +183,45 @@ export class UsersPage {
     this.error.set(null);
     this.success.set(null);
 
-    const q = `query UserPermissions($userId: ID!) { userPermissions(userId: $userId) { module canView canCreate canEdit canDelete } }`;
-    this.gql.request<UserPermissionsQueryResult>(q, { userId }).subscribe({
+    this.gql.request(UserAccessDocument, { userId }).subscribe({
       next: (res) => {
-        const incoming = res.userPermissions ?? [];
-        const map = new Map(incoming.map((p) => [String(p.module).toUpperCase(), p] as const));
-        this.permissions.set(
-          this.modules.map((m) => {
-            const p = map.get(m.key);
-            return {
-              module: m.key,
-              canView: Boolean(p?.canView),
-              canCreate: Boolean(p?.canCreate),
-              canEdit: Boolean(p?.canEdit),
-              canDelete: Boolean(p?.canDelete)
-            };
-          })
-        );
+        const role = res.userAccess.role ?? null;
+        this.permissionsRole.set(role);
+        this.permissions.set(applyOverrides(role?.permissions ?? [], res.userAccess.overrides ?? []));
         this.permissionsLoading.set(false);
       },
       error: (e: unknown) => {
-        this.permissions.set(this.defaultPermissions());
+        this.permissionsRole.set(null);
+        this.permissions.set(permissionMatrix([]));
         this.error.set(e instanceof Error ? e.message : 'Failed to load permissions');
         this.permissionsLoading.set(false);
       }
     });
   }
 
-  togglePermission(module: string, key: 'canView' | 'canCreate' | 'canEdit' | 'canDelete'): void {
+  togglePermission(module: string, key: PermissionFlag): void {
+    this.permissions.set(this.toggled(this.permissions(), module, key));
+  }
+
+  isOverridden(module: string, key: PermissionFlag): boolean {
+    return isOverridden(this.permissions(), this.roleDefaults(), module as ModuleKey, key);
+  }
+
+  resetToRoleDefaults(): void {
+    this.permissions.set(this.roleDefaults());
+  }
+
+  isViewOnly(module: string): boolean {
+    return VIEW_ONLY_MODULES.includes(module as ModuleKey);
+  }
+
+  moduleLabel(module: string): string {
+    return this.modules.find((m) => m.key === module)?.label ?? module;
+  }
+
+  private toggled(list: UserPermission[], module: string, key: PermissionFlag): UserPermission[] {
     const mod = String(module).toUpperCase();
-    this.permissions.set(
-      this.permissions().map((p) => {
-        if (String(p.module).toUpperCase() !== mod) return p;
-        return {
-          ...p,
-          [key]: !p[key]
-        } as UserPermission;
-      })
-    );
+    return list.map((p) => (String(p.module).toUpperCase() === mod ? { ...p, [key]: !p[key] } : p));
   }
 
   savePermissions(): void {
@@ -208,15 +232,11 @@ export class UsersPage {
     this.error.set(null);
     this.success.set(null);
 
-    const mutation = `mutation SetUserPermissions($input: SetUserPermissionsInput!) {
-      setUserPermissions(input: $input) { module canView canCreate canEdit canDelete }
-    }`;
-
     this.gql
-      .request<SetUserPermissionsMutationResult>(mutation, {
+      .request(SetUserPermissionsDocument, {
         input: {
           userId,
-          permissions: this.permissions().map((p) => ({
+          permissions: overridesFrom(this.permissions(), this.roleDefaults()).map((p) => ({
             module: p.module,
             canView: p.canView,
             canCreate: p.canCreate,
@@ -229,6 +249,7 @@ export class UsersPage {
         next: () => {
           this.success.set('Permissions updated');
           this.permissionsLoading.set(false);
+          this.refreshSessionIfCurrent(userId);
         },
         error: (e: unknown) => {
           this.error.set(e instanceof Error ? e.message : 'Failed to update permissions');
@@ -237,15 +258,16 @@ export class UsersPage {
       });
   }
 
+  private refreshSessionIfCurrent(userId: string): void {
+    if (String(this.session.user()?.id ?? '') === String(userId)) this.session.refresh();
+  }
+
   load(): void {
     this.loading.set(true);
     this.error.set(null);
     this.success.set(null);
 
-    const qUsers = `query { users { id name email plainPassword active roles } }`;
-    const qRoles = `query { roles }`;
-
-    this.gql.request<UsersQueryResult>(qUsers).subscribe({
+    this.gql.request(UsersDocument).subscribe({
       next: (res) => {
         this.users.set(res.users);
         this.loading.set(false);
@@ -256,12 +278,113 @@ export class UsersPage {
       }
     });
 
-    this.gql.request<RolesQueryResult>(qRoles).subscribe({
-      next: (res) => this.roles.set(res.roles.filter((r) => r === 'ADMIN' || r === 'STOREKEEPER')),
+    this.gql.request(RoleDefinitionsDocument).subscribe({
+      next: (res) => this.roleDefinitions.set(res.roleDefinitions ?? []),
       error: () => {}
     });
   }
 
+  openCreateRole(): void {
+    this.editingRoleName.set(null);
+    this.roleForm.reset({ name: '', description: '' });
+    this.roleForm.controls.name.enable();
+    this.rolePermissions.set(permissionMatrix([]));
+    this.error.set(null);
+    this.success.set(null);
+    this.roleEditorOpen.set(true);
+  }
+
+  openEditRole(role: Role): void {
+    this.editingRoleName.set(role.name);
+    this.roleForm.reset({ name: role.name, description: role.description ?? '' });
+    this.roleForm.controls.name.disable();
+    this.rolePermissions.set(permissionMatrix(role.permissions));
+    this.error.set(null);
+    this.success.set(null);
+    this.roleEditorOpen.set(true);
+  }
+
+  closeRoleEditor(): void {
+    this.roleEditorOpen.set(false);
+    this.editingRoleName.set(null);
+  }
+
+  toggleRolePermission(module: string, key: PermissionFlag): void {
+    this.rolePermissions.set(this.toggled(this.rolePermissions(), module, key));
+  }
+
+  saveRole(): void {
+    if (this.roleForm.invalid) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    const raw = this.roleForm.getRawValue();
+    const editing = this.editingRoleName();
+    const input = {
+      name: editing ?? String(raw.name ?? '').trim().toUpperCase().replace(/[\s-]+/g, '_'),
+      description: raw.description?.trim() ? raw.description.trim() : null,
+      permissions: this.rolePermissions().map((p) => ({
+        module: p.module,
+        canView: p.canView,
+        canCreate: p.canCreate,
+        canEdit: p.canEdit,
+        canDelete: p.canDelete
+      }))
+    };
+
+    const request$: Observable<unknown> = editing
+      ? this.gql.request(UpdateRoleDocument, { input })
+      : this.gql.request(CreateRoleDocument, { input });
+
+    request$.subscribe({
+      next: () => {
+        this.closeRoleEditor();
+        this.success.set(editing ? 'Role updated' : 'Role created');
+        this.load();
+        this.session.refresh();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to save role');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  openDeleteRole(role: Role): void {
+    this.pendingRoleDelete.set(role);
+    this.roleDeleteOpen.set(true);
+  }
+
+  closeDeleteRole(): void {
+    this.roleDeleteOpen.set(false);
+    this.pendingRoleDelete.set(null);
+  }
+
+  confirmDeleteRole(): void {
+    const role = this.pendingRoleDelete();
+    if (!role) return;
+
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql.request(DeleteRoleDocument, { name: role.name }).subscribe({
+      next: () => {
+        this.closeDeleteRole();
+        this.success.set('Role deleted');
+        this.load();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to delete role');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  roleGrantCount(role: Role): number {
+    return permissionMatrix(role.permissions).filter((p) => p.canView).length;
+  }
+
   create(): void {
     if (this.form.invalid) return;
 
@@ -272,21 +395,19 @@ export class UsersPage {
     const role = String(raw.role || '').trim();
     const roles = role ? [role] : [];
 
-    const mutation = `mutation CreateUser($input: CreateUserInput!) { createUser(input: $input) { id name email plainPassword active roles } }`;
-
     this.gql
-      .request<CreateUserResult>(mutation, {
+      .request(CreateUserDocument, {
         input: {
-          name: raw.name,
-          email: raw.email,
-          password: raw.password,
+          name: raw.name ?? '',
+          email: raw.email ?? '',
           roles
         }
       })
       .subscribe({
-        next: () => {
+        next: (res) => {
           this.closeCreate();
           this.success.set('User created');
+          this.showTemporaryPassword(res.createUser);
           this.load();
         },
         error: (e: unknown) => {
@@ -301,7 +422,6 @@ export class UsersPage {
     this.editForm.reset({
       name: user.name,
       email: user.email,
-      password: '',
       role: user.roles[0] ?? 'STOREKEEPER'
     });
     this.error.set(null);
@@ -324,17 +444,13 @@ export class UsersPage {
     const raw = this.editForm.getRawValue();
     const role = String(raw.role || '').trim();
     const roles = role ? [role] : [];
-    const password = (raw.password || '').trim();
-
-    const mutation = `mutation UpdateUser($input: UpdateUserInput!) { updateUser(input: $input) { id name email plainPassword active roles } }`;
 
     this.gql
-      .request<UpdateUserResult>(mutation, {
+      .request(UpdateUserDocument, {
         input: {
           userId: user.id,
           name: raw.name,
           email: raw.email,
-          password: password || null,
           roles
         }
       })
@@ -343,6 +459,7 @@ export class UsersPage {
           this.closeEdit();
           this.success.set('User updated');
           this.load();
+          this.refreshSessionIfCurrent(user.id);
         },
         error: (e: unknown) => {
           this.error.set(e instanceof Error ? e.message : 'Failed to update user');
@@ -351,37 +468,197 @@ export class UsersPage {
       });
   }
 
-  openDelete(user: AdminUser): void {
-    this.pendingDelete.set(user);
-    this.deleteOpen.set(true);
+  openResetPassword(user: AdminUser): void {
+    this.pendingResetPassword.set(user);
+    this.error.set(null);
+    this.success.set(null);
+    this.resetPasswordOpen.set(true);
   }
 
-  closeDelete(): void {
-    this.deleteOpen.set(false);
-    this.pendingDelete.set(null);
+  closeResetPassword(): void {
+    this.resetPasswordOpen.set(false);
+    this.pendingResetPassword.set(null);
   }
 
-  confirmDelete(): void {
-    const user = this.pendingDelete();
+  confirmResetPassword(): void {
+    const user = this.pendingResetPassword();
     if (!user) return;
 
     this.loading.set(true);
     this.error.set(null);
 
-    const mutation = `mutation DeleteUser($userId: ID!) { deleteUser(userId: $userId) }`;
+    this.gql.request(ResetUserPasswordDocument, { input: { userId: user.id } }).subscribe({
+      next: (res) => {
+        this.closeResetPassword();
+        this.success.set('Temporary password generated');
+        this.showTemporaryPassword(res.resetUserPassword);
+        this.load();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : 'Failed to reset password');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  closeTemporaryPassword(): void {
+    this.temporaryPassword.set(null);
+  }
+
+  private showTemporaryPassword(payload: TemporaryPassword): void {
+    this.temporaryPassword.set({ user: payload.user.name, password: payload.temporaryPassword });
+  }
+
+  openPin(user: AdminUser): void {
+    this.pinUser.set(user);
+    this.pinForm.reset({ pin: '' });
+    this.error.set(null);
+    this.success.set(null);
+    this.pinOpen.set(true);
+  }
+
+  closePin(): void {
+    this.pinOpen.set(false);
+    this.pinUser.set(null);
+  }
+
+  savePin(clear = false): void {
+    const user = this.pinUser();
+    if (!user || (!clear && this.pinForm.invalid)) return;
+
+    this.loading.set(true);
+    this.error.set(null);
 
     this.gql
-      .request<DeleteUserResult>(mutation, { userId: user.id })
+      .request(SetUserPinDocument, {
+        input: {
+          userId: user.id,
+          pin: clear ? null : String(this.pinForm.getRawValue().pin ?? '')
+        }
+      })
       .subscribe({
         next: () => {
-          this.closeDelete();
-          this.success.set('User deleted');
+          this.closePin();
+          this.success.set(clear ? 'PIN cleared' : 'PIN updated');
           this.load();
         },
         error: (e: unknown) => {
-          this.error.set(e instanceof Error ? e.message : 'Failed to delete user');
+          this.error.set(e instanceof Error ? e.message : 'Failed to update PIN');
           this.loading.set(false);
         }
       });
   }
+
+  openSessions(user: AdminUser): void {
+    this.sessionsUser.set(user);
+    this.sessions.set([]);
+    this.sessionsOpen.set(true);
+    this.loadSessions();
+  }
+
+  closeSessions(): void {
+    this.sessionsOpen.set(false);
+    this.sessionsUser.set(null);
+    this.sessions.set([]);
+  }
+
+  loadSessions(): void {
+    const user = this.sessionsUser();
+    if (!user) return;
+
+    this.sessionsLoading.set(true);
+    this.sessionsError.set(null);
+
+    this.gql.request(UserSessionsDocument, { userId: user.id }).subscribe({
+      next: (res) => {
+        this.sessions.set(res.userSessions ?? []);
+        this.sessionsLoading.set(false);
+      },
+      error: (e: unknown) => {
+        this.sessionsError.set(e instanceof Error ? e.message : 'Failed to load sessions');
+        this.sessionsLoading.set(false);
+      }
+    });
+  }
+
+  revokeSession(target: UserSession): void {
+    this.revokingSessionId.set(target.id);
+    this.sessionsError.set(null);
+
+    this.gql.request(RevokeSessionDocument, { sessionId: target.id }).subscribe({
+      next: () => {
+        this.revokingSessionId.set(null);
+        if (target.current) {
+          this.auth.expire();
+          return;
+        }
+        this.sessions.set(this.sessions().filter((s) => s.id !== target.id));
+      },
+      error: (e: unknown) => {
+        this.sessionsError.set(e instanceof Error ? e.message : 'Failed to revoke session');
+        this.revokingSessionId.set(null);
+      }
+    });
+  }
+
+  revokeAllSessions(): void {
+    const user = this.sessionsUser();
+    if (!user) return;
+
+    this.sessionsLoading.set(true);
+    this.sessionsError.set(null);
+
+    this.gql.request(RevokeUserSessionsDocument, { userId: user.id }).subscribe({
+      next: () => {
+        this.sessionsLoading.set(false);
+        if (this.isCurrentUser(user)) {
+          this.auth.expire();
+          return;
+        }
+        this.sessions.set([]);
+        this.success.set(`Signed ${user.name} out everywhere`);
+      },
+      error: (e: unknown) => {
+        this.sessionsError.set(e instanceof Error ? e.message : 'Failed to revoke sessions');
+        this.sessionsLoading.set(false);
+      }
+    });
+  }
+
+  isCurrentUser(user: AdminUser): boolean {
+    return this.session.user()?.id === user.id;
+  }
+
+  openStatus(user: AdminUser): void {
+    this.pendingStatus.set(user);
+    this.error.set(null);
+    this.success.set(null);
+    this.statusOpen.set(true);
+  }
+
+  closeStatus(): void {
+    this.statusOpen.set(false);
+    this.pendingStatus.set(null);
+  }
+
+  confirmStatus(): void {
+    const user = this.pendingStatus();
+    if (!user) return;
+
+    const active = !user.active;
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.gql.request(SetUserActiveDocument, { input: { userId: user.id, active } }).subscribe({
+      next: () => {
+        this.closeStatus();
+        this.success.set(active ? 'User reactivated' : 'User deactivated');
+        this.load();
+      },
+      error: (e: unknown) => {
+        this.error.set(e instanceof Error ? e.message : active ? 'Failed to reactivate user' : 'Failed to deactivate user');
+        this.loading.set(false);
+      }
+    });
+  }
 }
@@ -0,0 +1,87 @@
+import { Component, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import type { ModuleKey, PermissionAction } from '../models/permission';
+import { PermissionService } from '../services/permission.service';
+import { CanDirective } from './can.directive';
+
+@Component({
+  standalone: true,
+  imports: [CanDirective],
+  template: `
+    <button id="hidden" *cisCan="'create'; module: 'SALES'" (click)="clicks = clicks + 1">Create</button>
+    <button id="disabled" *cisCan="'delete'; module: 'SALES'; mode: 'disable'; tooltip: 'Admins only'" (click)="clicks = clicks + 1">
+      Delete
+    </button>
+  `
+})
+class HostComponent {
+  clicks = 0;
+}
+
+describe('CanDirective', () => {
+  const granted = signal<Array<`${ModuleKey}:${PermissionAction}`>>([]);
+
+  beforeEach(async () => {
+    granted.set([]);
+
+    await TestBed.configureTestingModule({
+      imports: [HostComponent],
+      providers: [
+        {
+          provide: PermissionService,
+          useValue: { can: (module: ModuleKey, action: PermissionAction) => granted().includes(`${module}:${action}`) }
+        }
+      ]
+    }).compileComponents();
+  });
+
+  function render() {
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    const el = fixture.nativeElement as HTMLElement;
+    return {
+      fixture,
+      hidden: () => el.querySelector<HTMLButtonElement>('#hidden'),
+      disabled: () => el.querySelector<HTMLButtonElement>('#disabled')
+    };
+  }
+
+  it('removes the element when the action is not allowed', () => {
+    const { hidden } = render();
+    expect(hidden()).toBeNull();
+  });
+
+  it('renders the element once the permission is granted', () => {
+    const { fixture, hidden } = render();
+
+    granted.set(['SALES:create']);
+    fixture.detectChanges();
+
+    expect(hidden()).not.toBeNull();
+  });
+
+  it('keeps the element but disables it with a tooltip in disable mode', () => {
+    const { fixture, disabled } = render();
+    const button = disabled()!;
+
+    expect(button.disabled).toBeTrue();
+    expect(button.title).toBe('Admins only');
+
+    button.dispatchEvent(new MouseEvent('click'));
+    expect(fixture.componentInstance.clicks).toBe(0);
+  });
+
+  it('re-enables a disabled element when the permission is granted', () => {
+    const { fixture, disabled } = render();
+
+    granted.set(['SALES:delete']);
+    fixture.detectChanges();
+
+    const button = disabled()!;
+    expect(button.disabled).toBeFalse();
+    expect(button.hasAttribute('title')).toBeFalse();
+
+    button.click();
+    expect(fixture.componentInstance.clicks).toBe(1);
+  });
+});
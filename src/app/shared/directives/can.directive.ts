@@ -0,0 +1,82 @@
+import {
+  Directive,
+  type EmbeddedViewRef,
+  TemplateRef,
+  ViewContainerRef,
+  effect,
+  inject,
+  input
+} from '@angular/core';
+import type { ModuleKey, PermissionAction } from '../models/permission';
+import { PermissionService } from '../services/permission.service';
+
+export type CanMode = 'hide' | 'disable';
+
+const DEFAULT_TOOLTIP = 'You do not have permission to do this';
+
+const blockEvent = (e: Event) => {
+  e.preventDefault();
+  e.stopImmediatePropagation();
+};
+
+@Directive({
+  selector: '[cisCan]',
+  standalone: true
+})
+export class CanDirective {
+  readonly action = input.required<PermissionAction>({ alias: 'cisCan' });
+  readonly module = input.required<ModuleKey>({ alias: 'cisCanModule' });
+  readonly mode = input<CanMode>('hide', { alias: 'cisCanMode' });
+  readonly tooltip = input<string>(DEFAULT_TOOLTIP, { alias: 'cisCanTooltip' });
+
+  private readonly perm = inject(PermissionService);
+  private readonly template = inject(TemplateRef<unknown>);
+  private readonly container = inject(ViewContainerRef);
+
+  private view: EmbeddedViewRef<unknown> | null = null;
+  private disabled = false;
+
+  constructor() {
+    effect(() => {
+      const allowed = this.perm.can(this.module(), this.action());
+      const mode = this.mode();
+
+      if (!allowed && mode === 'hide') {
+        this.clear();
+        return;
+      }
+
+      this.view ??= this.container.createEmbeddedView(this.template);
+      this.setDisabled(!allowed, this.tooltip());
+    });
+  }
+
+  private clear(): void {
+    this.container.clear();
+    this.view = null;
+    this.disabled = false;
+  }
+
+  private setDisabled(disabled: boolean, tooltip: string): void {
+    if (!this.view || disabled === this.disabled) return;
+    this.disabled = disabled;
+
+    for (const node of this.view.rootNodes) {
+      if (!(node instanceof HTMLElement)) continue;
+
+      if (disabled) {
+        node.setAttribute('aria-disabled', 'true');
+        node.setAttribute('title', tooltip);
+        node.classList.add('cursor-not-allowed', 'opacity-50');
+        node.addEventListener('click', blockEvent, true);
+        if ('disabled' in node) (node as HTMLButtonElement).disabled = true;
+      } else {
+        node.removeAttribute('aria-disabled');
+        node.removeAttribute('title');
+        node.classList.remove('cursor-not-allowed', 'opacity-50');
+        node.removeEventListener('click', blockEvent, true);
+        if ('disabled' in node) (node as HTMLButtonElement).disabled = false;
+      }
+    }
+  }
+}
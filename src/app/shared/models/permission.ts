@@ -0,0 +1,30 @@
+export const MODULES = [
+  { key: 'PRODUCTS', label: 'Products' },
+  { key: 'CATEGORIES', label: 'Categories' },
+  { key: 'INVENTORY', label: 'Inventory' },
+  { key: 'STOCK_MOVEMENTS', label: 'Stock Movements' },
+  { key: 'SALES', label: 'Sales' },
+  { key: 'MY_SALES', label: 'My Sales' },
+  { key: 'PURCHASING', label: 'Purchasing' },
+  { key: 'EXPENSES', label: 'Expenses' },
+  { key: 'EXPENSE_CATEGORIES', label: 'Expense Categories' },
+  { key: 'REPORTS', label: 'Reports' },
+  { key: 'PROFIT_MANAGEMENT', label: 'Profit Management' },
+  { key: 'USERS_ROLES', label: 'Users & Roles' },
+  { key: 'AUDIT_LOG', label: 'Audit Log' },
+  { key: 'COSTS_MARGINS', label: 'Costs & Margins' }
+] as const;
+
+export type ModuleKey = (typeof MODULES)[number]['key'];
+
+export const VIEW_ONLY_MODULES: readonly ModuleKey[] = ['AUDIT_LOG', 'COSTS_MARGINS'];
+
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
+
+export type PermissionGrant = {
+  module: string;
+  canView: boolean;
+  canCreate: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+};
@@ -0,0 +1,16 @@
+import { inject, Pipe, type PipeTransform } from '@angular/core';
+import type { ModuleKey, PermissionAction } from '../models/permission';
+import { PermissionService } from '../services/permission.service';
+
+@Pipe({
+  name: 'can',
+  standalone: true,
+  pure: false
+})
+export class CanPipe implements PipeTransform {
+  private readonly perm = inject(PermissionService);
+
+  transform(module: ModuleKey, action: PermissionAction = 'view'): boolean {
+    return this.perm.can(module, action);
+  }
+}
@@ -0,0 +1,16 @@
+import { inject, Pipe, type PipeTransform } from '@angular/core';
+import type { Observable } from 'rxjs';
+
+import { FileStoreService } from '../../core/files/file-store.service';
+
+@Pipe({
+  name: 'fileUrl',
+  standalone: true
+})
+export class FileUrlPipe implements PipeTransform {
+  private readonly files = inject(FileStoreService);
+
+  transform(url: string | null | undefined): Observable<string | null> {
+    return this.files.resolve(url);
+  }
+}
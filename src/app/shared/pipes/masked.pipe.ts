@@ -0,0 +1,18 @@
+import { inject, Pipe, type PipeTransform } from '@angular/core';
+import type { ModuleKey } from '../models/permission';
+import { PermissionService } from '../services/permission.service';
+
+export const MASKED_VALUE = '••••';
+
+@Pipe({
+  name: 'masked',
+  standalone: true,
+  pure: false
+})
+export class MaskedPipe implements PipeTransform {
+  private readonly perm = inject(PermissionService);
+
+  transform<T>(value: T, module: ModuleKey = 'COSTS_MARGINS'): T | string {
+    return this.perm.canView(module) ? value : MASKED_VALUE;
+  }
+}
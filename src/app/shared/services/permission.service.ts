@@ -1,75 +1,44 @@
-import { computed, Injectable, signal } from '@angular/core';
-import { GraphqlService } from '../../core/graphql/graphql.service';
-
-type UserPermission = {
-  module: string;
-  canView: boolean;
-  canCreate: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-};
-
-type MeResult = {
-  me: { id: string; name: string; email: string; roles: string[] } | null;
-};
-
-type MyPermissionsResult = {
-  myPermissions: UserPermission[];
-};
+import { Injectable, inject } from '@angular/core';
+import type { Observable } from 'rxjs';
+import { SessionStore } from '../../core/auth/session.store';
+import type { ModuleKey, PermissionAction } from '../models/permission';
 
 @Injectable({ providedIn: 'root' })
 export class PermissionService {
-  private readonly me = signal<MeResult['me']>(null);
-  private readonly myPermissions = signal<UserPermission[]>([]);
-  private loaded = false;
+  private readonly session = inject(SessionStore);
 
-  readonly isAdmin = computed(() => (this.me()?.roles ?? []).includes('ADMIN'));
+  readonly isAdmin = this.session.isAdmin;
+  readonly loaded = this.session.loaded;
 
-  constructor(private readonly gql: GraphqlService) {}
-
-  load(): void {
-    if (this.loaded) return;
-    this.loaded = true;
-
-    const meQ = `query Me { me { id name email roles } }`;
-    this.gql.request<MeResult>(meQ).subscribe({
-      next: (res) => this.me.set(res.me),
-      error: () => this.me.set(null)
-    });
+  load(): Observable<void> {
+    return this.session.load();
+  }
 
-    const permQ = `query MyPermissions { myPermissions { module canView canCreate canEdit canDelete } }`;
-    this.gql.request<MyPermissionsResult>(permQ).subscribe({
-      next: (res) => this.myPermissions.set(res.myPermissions ?? []),
-      error: () => this.myPermissions.set([])
-    });
+  reload(): Observable<void> {
+    return this.session.refresh();
   }
 
-  reload(): void {
-    this.loaded = false;
-    this.load();
+  can(module: ModuleKey, action: PermissionAction = 'view'): boolean {
+    return this.session.can(module, action);
   }
 
-  private perm(module: string): UserPermission | undefined {
-    return this.myPermissions().find((x) => x.module === module.toUpperCase());
+  canView(module: ModuleKey): boolean {
+    return this.can(module, 'view');
   }
 
-  canView(module: string): boolean {
-    if (this.isAdmin()) return true;
-    return Boolean(this.perm(module)?.canView);
+  canCreate(module: ModuleKey): boolean {
+    return this.can(module, 'create');
   }
 
-  canCreate(module: string): boolean {
-    if (this.isAdmin()) return true;
-    return Boolean(this.perm(module)?.canCreate);
+  canEdit(module: ModuleKey): boolean {
+    return this.can(module, 'edit');
   }
 
-  canEdit(module: string): boolean {
-    if (this.isAdmin()) return true;
-    return Boolean(this.perm(module)?.canEdit);
+  canDelete(module: ModuleKey): boolean {
+    return this.can(module, 'delete');
   }
 
-  canDelete(module: string): boolean {
-    if (this.isAdmin()) return true;
-    return Boolean(this.perm(module)?.canDelete);
+  canViewCosts(): boolean {
+    return this.canView('COSTS_MARGINS');
   }
 }
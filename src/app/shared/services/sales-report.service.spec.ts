@@ -0,0 +1,117 @@
+import { TestBed } from '@angular/core/testing';
+import { CombinedGraphQLErrors } from '@apollo/client';
+import { type Observable, of, throwError } from 'rxjs';
+
+import { GraphqlService } from '../../core/graphql/graphql.service';
+import { SalesReportRangeDocument } from '../../core/graphql/generated/graphql';
+import { PermissionService } from './permission.service';
+import { type SalesReportBucket, SalesReportService } from './sales-report.service';
+
+type Daily = { date: string; totalSalesAmount: number; totalProfitAmount: number };
+
+function bucket(date: string, sales: number, cost: number): SalesReportBucket {
+  return { period: date, from: date, to: date, totalSalesAmount: sales, totalCostAmount: cost, totalProfitAmount: sales - cost };
+}
+
+describe('SalesReportService', () => {
+  let rangeResult: () => Observable<unknown>;
+  let daily: Record<string, Daily>;
+  let rangeCalls: number;
+  let dailyDates: string[];
+  let canViewCosts: boolean;
+  let withCosts: Array<boolean | undefined>;
+
+  beforeEach(() => {
+    rangeCalls = 0;
+    dailyDates = [];
+    canViewCosts = true;
+    withCosts = [];
+    daily = {};
+    rangeResult = () => of({ salesReport: { buckets: [] } });
+
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: GraphqlService,
+          useValue: {
+            request: (doc: unknown, vars: { date?: string; withCosts?: boolean }) => {
+              withCosts.push(vars.withCosts);
+              if (doc === SalesReportRangeDocument) {
+                rangeCalls++;
+                return rangeResult();
+              }
+              const date = vars.date ?? '';
+              dailyDates.push(date);
+              return of({ dailySalesReport: daily[date] ?? { date, totalSalesAmount: 0, totalProfitAmount: 0 } });
+            }
+          }
+        },
+        { provide: PermissionService, useValue: { canViewCosts: () => canViewCosts } }
+      ]
+    });
+  });
+
+  function run(from: string, to: string, groupBy: 'DAY' | 'MONTH'): SalesReportBucket[] {
+    const results: SalesReportBucket[][] = [];
+    TestBed.inject(SalesReportService).range(from, to, groupBy).subscribe((buckets) => results.push(buckets));
+    expect(results.length).toBe(1);
+    return results[0];
+  }
+
+  it('fills every day of the range, including days without sales', () => {
+    rangeResult = () => of({ salesReport: { buckets: [bucket('2024-01-31', 100, 60)] } });
+
+    expect(run('2024-01-30', '2024-02-01', 'DAY')).toEqual([
+      bucket('2024-01-30', 0, 0),
+      bucket('2024-01-31', 100, 60),
+      bucket('2024-02-01', 0, 0)
+    ]);
+  });
+
+  it('groups by month across a month boundary, clipping periods to the range', () => {
+    rangeResult = () =>
+      of({ salesReport: { buckets: [bucket('2024-01-30', 100, 60), bucket('2024-01-31', 50, 20), bucket('2024-02-02', 10, 5)] } });
+
+    expect(run('2024-01-30', '2024-02-02', 'MONTH')).toEqual([
+      { period: '2024-01', from: '2024-01-30', to: '2024-01-31', totalSalesAmount: 150, totalCostAmount: 80, totalProfitAmount: 70 },
+      { period: '2024-02', from: '2024-02-01', to: '2024-02-02', totalSalesAmount: 10, totalCostAmount: 5, totalProfitAmount: 5 }
+    ]);
+  });
+
+  it('returns no buckets for an empty range', () => {
+    expect(run('2024-02-02', '2024-02-01', 'DAY')).toEqual([]);
+  });
+
+  it('falls back to daily reports when the server has no range report, and remembers it', () => {
+    rangeResult = () =>
+      throwError(() => new CombinedGraphQLErrors({ errors: [{ message: "Cannot query field 'salesReport' on type 'Query'" }] }));
+    daily['2024-01-31'] = { date: '2024-01-31', totalSalesAmount: 100, totalProfitAmount: 40 };
+    daily['2024-02-01'] = { date: '2024-02-01', totalSalesAmount: 30, totalProfitAmount: 10 };
+
+    expect(run('2024-01-31', '2024-02-01', 'MONTH')).toEqual([
+      { period: '2024-01', from: '2024-01-31', to: '2024-01-31', totalSalesAmount: 100, totalCostAmount: 60, totalProfitAmount: 40 },
+      { period: '2024-02', from: '2024-02-01', to: '2024-02-01', totalSalesAmount: 30, totalCostAmount: 20, totalProfitAmount: 10 }
+    ]);
+    expect(dailyDates.sort()).toEqual(['2024-01-31', '2024-02-01']);
+
+    run('2024-01-31', '2024-01-31', 'DAY');
+    expect(rangeCalls).toBe(1);
+  });
+
+  it('only asks for cost and profit figures when the user may see them', () => {
+    canViewCosts = false;
+    run('2024-01-31', '2024-01-31', 'DAY');
+    expect(withCosts).toEqual([false]);
+  });
+
+  it('does not fall back on other errors', () => {
+    rangeResult = () => throwError(() => new Error('Network down'));
+    const errors: unknown[] = [];
+    TestBed.inject(SalesReportService)
+      .range('2024-01-31', '2024-02-01', 'DAY')
+      .subscribe({ error: (e: unknown) => errors.push(e) });
+
+    expect(errors.length).toBe(1);
+    expect(dailyDates).toEqual([]);
+  });
+});
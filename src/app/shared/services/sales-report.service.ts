@@ -0,0 +1,105 @@
+import { Injectable } from '@angular/core';
+import { CombinedGraphQLErrors } from '@apollo/client';
+import { type Observable, catchError, map, mergeMap, of, throwError, toArray } from 'rxjs';
+
+import { GraphqlService } from '../../core/graphql/graphql.service';
+import {
+  DailySalesTotalsDocument,
+  type DailySalesTotalsQuery,
+  type ReportGrouping,
+  SalesReportRangeDocument,
+  type SalesReportRangeQuery
+} from '../../core/graphql/generated/graphql';
+import { datesBetween, toIsoDate } from '../utils/date.utils';
+import { PermissionService } from './permission.service';
+
+export type SalesReportBucket = SalesReportRangeQuery['salesReport']['buckets'][number];
+
+const DAILY_CONCURRENCY = 4;
+
+const UNSUPPORTED_FIELD = /FieldUndefined|Cannot query field|Unknown type|is undefined/i;
+
+@Injectable({ providedIn: 'root' })
+export class SalesReportService {
+  private rangeSupported = true;
+
+  constructor(
+    private readonly gql: GraphqlService,
+    private readonly perm: PermissionService
+  ) {}
+
+  range(from: string, to: string, groupBy: ReportGrouping): Observable<SalesReportBucket[]> {
+    if (!this.rangeSupported) return this.fromDailyReports(from, to, groupBy);
+
+    const withCosts = this.perm.canViewCosts();
+    return this.gql.request(SalesReportRangeDocument, { filter: { from, to, groupBy }, withCosts }).pipe(
+      map((res) => this.group(from, to, groupBy, res.salesReport.buckets)),
+      catchError((e: unknown) => {
+        if (!this.isUnsupported(e)) return throwError(() => e);
+        this.rangeSupported = false;
+        return this.fromDailyReports(from, to, groupBy);
+      })
+    );
+  }
+
+  private fromDailyReports(from: string, to: string, groupBy: ReportGrouping): Observable<SalesReportBucket[]> {
+    const today = toIsoDate(new Date());
+    const dates = datesBetween(from, to).filter((d) => d <= today);
+    const withCosts = this.perm.canViewCosts();
+
+    return of(...dates).pipe(
+      mergeMap(
+        (date) =>
+          this.gql.request(
+            DailySalesTotalsDocument,
+            { date, withCosts },
+            { fetchPolicy: date < today ? 'cache-first' : 'network-only' }
+          ),
+        DAILY_CONCURRENCY
+      ),
+      toArray(),
+      map((reports) => this.group(from, to, groupBy, reports.map((r) => this.dayBucket(r))))
+    );
+  }
+
+  private dayBucket({ dailySalesReport: r }: DailySalesTotalsQuery): SalesReportBucket {
+    const sales = Number(r.totalSalesAmount ?? 0);
+    const bucket: SalesReportBucket = { period: r.date, from: r.date, to: r.date, totalSalesAmount: sales };
+    if (r.totalProfitAmount == null) return bucket;
+
+    const profit = Number(r.totalProfitAmount);
+    return { ...bucket, totalCostAmount: sales - profit, totalProfitAmount: profit };
+  }
+
+  private group(from: string, to: string, groupBy: ReportGrouping, buckets: SalesReportBucket[]): SalesReportBucket[] {
+    const periodOf = (date: string) => (groupBy === 'MONTH' ? date.slice(0, 7) : date);
+
+    const periods = new Map<string, Required<SalesReportBucket>>();
+    for (const date of datesBetween(from, to)) {
+      const period = periodOf(date);
+      const existing = periods.get(period);
+      if (existing) {
+        existing.to = date;
+      } else {
+        periods.set(period, { period, from: date, to: date, totalSalesAmount: 0, totalCostAmount: 0, totalProfitAmount: 0 });
+      }
+    }
+
+    for (const b of buckets) {
+      const target = periods.get(periodOf(b.from));
+      if (!target) continue;
+      target.totalSalesAmount += Number(b.totalSalesAmount ?? 0);
+      target.totalCostAmount += Number(b.totalCostAmount ?? 0);
+      target.totalProfitAmount += Number(b.totalProfitAmount ?? 0);
+    }
+
+    return Array.from(periods.values());
+  }
+
+  private isUnsupported(e: unknown): boolean {
+    return (
+      CombinedGraphQLErrors.is(e) &&
+      e.errors.some((err) => err.extensions?.['classification'] === 'ValidationError' || UNSUPPORTED_FIELD.test(err.message))
+    );
+  }
+}
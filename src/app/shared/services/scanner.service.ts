@@ -0,0 +1,57 @@
+import { Injectable } from '@angular/core';
+import { type Observable, defer, filter, fromEvent, map, share } from 'rxjs';
+
+import { GraphqlService } from '../../core/graphql/graphql.service';
+import { ProductByCodeDocument, type ProductByCodeQuery } from '../../core/graphql/generated/graphql';
+import { createScanDetector } from '../utils/scan.utils';
+import { PermissionService } from './permission.service';
+
+export type ScannedProduct = NonNullable<ProductByCodeQuery['productByCode']>;
+
+export type BarcodeDetectorLike = {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+};
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorLike;
+
+@Injectable({ providedIn: 'root' })
+export class ScannerService {
+  readonly scans: Observable<string> = defer(() => {
+    const detector = createScanDetector();
+    return fromEvent<KeyboardEvent>(document, 'keydown', { capture: true }).pipe(
+      map((event) => {
+        const code = detector.push(event.key, event.timeStamp);
+        if (code) {
+          event.preventDefault();
+          event.stopImmediatePropagation();
+        }
+        return code;
+      }),
+      filter((code): code is string => !!code)
+    );
+  }).pipe(share());
+
+  constructor(
+    private readonly gql: GraphqlService,
+    private readonly perm: PermissionService
+  ) {}
+
+  resolve(code: string): Observable<ScannedProduct | null> {
+    return this.gql
+      .request(ProductByCodeDocument, { code: code.trim(), withCosts: this.perm.canViewCosts() })
+      .pipe(map((res) => res.productByCode ?? null));
+  }
+
+  cameraSupported(): boolean {
+    return !!this.detectorClass() && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  createDetector(): BarcodeDetectorLike | null {
+    const Detector = this.detectorClass();
+    return Detector ? new Detector() : null;
+  }
+
+  private detectorClass(): BarcodeDetectorConstructor | null {
+    return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+  }
+}
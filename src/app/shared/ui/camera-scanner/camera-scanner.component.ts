@@ -0,0 +1,93 @@
+import { CommonModule } from '@angular/common';
+import { Component, ElementRef, EventEmitter, Input, OnDestroy, Output, ViewChild, signal } from '@angular/core';
+
+import { ModalComponent } from '../modal/modal.component';
+import { ScannerService } from '../../services/scanner.service';
+
+const DETECT_INTERVAL_MS = 250;
+
+@Component({
+  selector: 'cis-camera-scanner',
+  standalone: true,
+  imports: [CommonModule, ModalComponent],
+  templateUrl: './camera-scanner.component.html',
+  styleUrl: './camera-scanner.component.scss'
+})
+export class CameraScannerComponent implements OnDestroy {
+  @Input({ required: true }) open = false;
+
+  @Output() detected = new EventEmitter<string>();
+  @Output() close = new EventEmitter<void>();
+
+  @ViewChild('video') set video(ref: ElementRef<HTMLVideoElement> | undefined) {
+    if (ref) void this.start(ref.nativeElement);
+    else this.stop();
+  }
+
+  error = signal<string | null>(null);
+  starting = signal(false);
+
+  private stream: MediaStream | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private session = 0;
+
+  constructor(private readonly scanner: ScannerService) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  cancel(): void {
+    this.stop();
+    this.close.emit();
+  }
+
+  private async start(video: HTMLVideoElement): Promise<void> {
+    const session = ++this.session;
+    this.error.set(null);
+
+    const detector = this.scanner.createDetector();
+    if (!detector || !navigator.mediaDevices?.getUserMedia) {
+      this.error.set('Camera scanning is not supported in this browser');
+      return;
+    }
+
+    this.starting.set(true);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      if (session !== this.session) {
+        stream.getTracks().forEach((t) => t.stop());
+        return;
+      }
+      this.stream = stream;
+      video.srcObject = stream;
+      await video.play();
+    } catch (e: unknown) {
+      this.error.set(e instanceof Error ? e.message : 'Could not open the camera');
+      this.starting.set(false);
+      return;
+    }
+    this.starting.set(false);
+
+    const tick = async () => {
+      if (session !== this.session) return;
+      const [code] = await detector.detect(video).catch(() => []);
+      if (code?.rawValue && session === this.session) {
+        this.stop();
+        this.detected.emit(code.rawValue);
+        return;
+      }
+      if (session === this.session) this.timer = setTimeout(tick, DETECT_INTERVAL_MS);
+    };
+    void tick();
+  }
+
+  private stop(): void {
+    this.session++;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.stream?.getTracks().forEach((t) => t.stop());
+    this.stream = null;
+    this.starting.set(false);
+  }
+}
@@ -0,0 +1,135 @@
+import { CommonModule } from '@angular/common';
+import { Component, ElementRef, EventEmitter, Input, OnDestroy, Output, ViewChild, inject, signal } from '@angular/core';
+
+import { FileStoreService } from '../../../core/files/file-store.service';
+import { FileUrlPipe } from '../../pipes/file-url.pipe';
+import { type CropRect, IMAGE_TYPES, canvasToBlob, cropRect, drawCrop } from '../../utils/image.utils';
+
+const PREVIEW_SIZE = 160;
+const OUTPUT_SIZE = 512;
+const MAX_BYTES = 10 * 1024 * 1024;
+
+@Component({
+  selector: 'cis-image-picker',
+  standalone: true,
+  imports: [CommonModule, FileUrlPipe],
+  templateUrl: './image-picker.component.html',
+  styleUrl: './image-picker.component.scss'
+})
+export class ImagePickerComponent implements OnDestroy {
+  @Input() value: string | null = null;
+  @Input() disabled = false;
+
+  @Output() valueChange = new EventEmitter<string | null>();
+
+  @ViewChild('preview') set preview(ref: ElementRef<HTMLCanvasElement> | undefined) {
+    this.canvas = ref?.nativeElement ?? null;
+    this.render();
+  }
+
+  private readonly files = inject(FileStoreService);
+  private canvas: HTMLCanvasElement | null = null;
+
+  source = signal<ImageBitmap | null>(null);
+  zoom = signal(1);
+  focusX = signal(0.5);
+  focusY = signal(0.5);
+  uploading = signal(false);
+  error = signal<string | null>(null);
+
+  readonly accept = IMAGE_TYPES.join(',');
+
+  ngOnDestroy(): void {
+    this.discard();
+  }
+
+  async onFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.error.set(null);
+    if (!IMAGE_TYPES.includes(file.type)) {
+      this.error.set('Choose a JPEG, PNG or WebP image');
+      return;
+    }
+    if (file.size > MAX_BYTES) {
+      this.error.set('Images must be 10 MB or smaller');
+      return;
+    }
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      this.discard();
+      this.zoom.set(1);
+      this.focusX.set(0.5);
+      this.focusY.set(0.5);
+      this.source.set(bitmap);
+      this.render();
+    } catch {
+      this.error.set('The image could not be read');
+    }
+  }
+
+  setZoom(value: string): void {
+    this.zoom.set(Number(value));
+    this.render();
+  }
+
+  setFocus(axis: 'x' | 'y', value: string): void {
+    (axis === 'x' ? this.focusX : this.focusY).set(Number(value));
+    this.render();
+  }
+
+  async apply(): Promise<void> {
+    const source = this.source();
+    if (!source) return;
+
+    this.uploading.set(true);
+    this.error.set(null);
+
+    try {
+      const canvas = document.createElement('canvas');
+      drawCrop(canvas, source, this.rect(source), OUTPUT_SIZE);
+      const blob = await canvasToBlob(canvas);
+
+      this.files.upload(blob, 'product.jpg').subscribe({
+        next: (stored) => {
+          this.uploading.set(false);
+          this.discard();
+          this.valueChange.emit(stored.url);
+        },
+        error: (e: unknown) => {
+          this.error.set(e instanceof Error ? e.message : 'Failed to upload image');
+          this.uploading.set(false);
+        }
+      });
+    } catch (e: unknown) {
+      this.error.set(e instanceof Error ? e.message : 'Failed to process image');
+      this.uploading.set(false);
+    }
+  }
+
+  cancel(): void {
+    this.discard();
+  }
+
+  remove(): void {
+    this.valueChange.emit(null);
+  }
+
+  private rect(source: ImageBitmap): CropRect {
+    return cropRect(source.width, source.height, this.zoom(), this.focusX(), this.focusY());
+  }
+
+  private render(): void {
+    const source = this.source();
+    if (this.canvas && source) drawCrop(this.canvas, source, this.rect(source), PREVIEW_SIZE);
+  }
+
+  private discard(): void {
+    this.source()?.close();
+    this.source.set(null);
+  }
+}
@@ -0,0 +1,22 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+import type { UserSessionFieldsFragment } from '../../../core/graphql/generated/graphql';
+
+type UserSession = UserSessionFieldsFragment;
+
+@Component({
+  selector: 'cis-sessions-table',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sessions-table.component.html',
+  styleUrl: './sessions-table.component.scss'
+})
+export class SessionsTableComponent {
+  @Input({ required: true }) sessions: UserSession[] = [];
+  @Input() loading = false;
+  @Input() canRevoke = true;
+  @Input() revokingId: string | null = null;
+
+  @Output() revoke = new EventEmitter<UserSession>();
+}
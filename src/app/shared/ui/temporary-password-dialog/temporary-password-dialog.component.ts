@@ -0,0 +1,34 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, Output, signal } from '@angular/core';
+
+import { ModalComponent } from '../modal/modal.component';
+
+@Component({
+  selector: 'cis-temporary-password-dialog',
+  standalone: true,
+  imports: [CommonModule, ModalComponent],
+  templateUrl: './temporary-password-dialog.component.html',
+  styleUrl: './temporary-password-dialog.component.scss'
+})
+export class TemporaryPasswordDialogComponent {
+  @Input({ required: true }) open = false;
+  @Input() password: string | null = null;
+  @Input() userLabel = '';
+
+  @Output() close = new EventEmitter<void>();
+
+  copied = signal(false);
+
+  copy(): void {
+    if (!this.password) return;
+    navigator.clipboard?.writeText(this.password).then(
+      () => this.copied.set(true),
+      () => this.copied.set(false)
+    );
+  }
+
+  done(): void {
+    this.copied.set(false);
+    this.close.emit();
+  }
+}
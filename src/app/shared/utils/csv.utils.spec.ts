@@ -0,0 +1,47 @@
+import { parseCsv, toCsv } from './csv.utils';
+
+type Row = { name: string; qty: number | null };
+
+const columns = [
+  { header: 'Name', value: (r: Row) => r.name },
+  { header: 'Qty', value: (r: Row) => r.qty }
+];
+
+describe('toCsv', () => {
+  it('writes a header row followed by one line per row', () => {
+    expect(toCsv([{ name: 'Panadol', qty: 3 }], columns)).toBe('Name,Qty\r\nPanadol,3');
+  });
+
+  it('quotes cells containing separators, quotes or line breaks', () => {
+    const csv = toCsv([{ name: 'Syrup, "kids"\n100ml', qty: null }], columns);
+    expect(csv).toBe('Name,Qty\r\n"Syrup, ""kids""\n100ml",');
+  });
+
+  it('neutralises text that spreadsheets would run as a formula', () => {
+    const rows = ['=SUM(A1:A2)', '+1', '-cmd', '@A1', '\tx'].map((name) => ({ name, qty: -2 }));
+    expect(toCsv(rows, columns).split('\r\n').slice(1)).toEqual([
+      "'=SUM(A1:A2),-2",
+      "'+1,-2",
+      "'-cmd,-2",
+      "'@A1,-2",
+      "'\tx,-2"
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('splits lines and cells, ignoring a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFName,Qty\r\nPanadol,3\r\n\r\n')).toEqual([
+      ['Name', 'Qty'],
+      ['Panadol', '3']
+    ]);
+  });
+
+  it('reads quoted cells written by toCsv', () => {
+    const csv = toCsv([{ name: 'Syrup, "kids"\n100ml', qty: null }], columns);
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'Qty'],
+      ['Syrup, "kids"\n100ml', '']
+    ]);
+  });
+});
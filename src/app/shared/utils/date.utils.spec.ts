@@ -0,0 +1,24 @@
+import { addDays, datesBetween, endOfMonth, startOfMonth } from './date.utils';
+
+describe('date utils', () => {
+  it('adds days across month and year boundaries', () => {
+    expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('returns the first and last day of a month', () => {
+    expect(startOfMonth(2024, 2)).toBe('2024-02-01');
+    expect(endOfMonth(2024, 2)).toBe('2024-02-29');
+    expect(endOfMonth(2023, 12)).toBe('2023-12-31');
+  });
+
+  it('lists every date in an inclusive range across a month boundary', () => {
+    expect(datesBetween('2024-01-30', '2024-02-02')).toEqual(['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-02']);
+  });
+
+  it('returns a single date or nothing for degenerate ranges', () => {
+    expect(datesBetween('2024-02-01', '2024-02-01')).toEqual(['2024-02-01']);
+    expect(datesBetween('2024-02-02', '2024-02-01')).toEqual([]);
+  });
+});
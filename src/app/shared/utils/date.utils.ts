@@ -14,3 +14,17 @@ export function endOfMonth(year: number, month1to12: number): string {
   const d = new Date(year, month1to12, 0);
   return toIsoDate(d);
 }
+
+export function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function datesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+}
@@ -0,0 +1,22 @@
+import { snapshotDiff } from './diff.utils';
+
+describe('snapshotDiff', () => {
+  it('lists only the fields that changed', () => {
+    const before = JSON.stringify({ name: 'Panadol', price: 1200, active: true });
+    const after = JSON.stringify({ name: 'Panadol', price: 1500, active: true });
+    expect(snapshotDiff(before, after)).toEqual([{ field: 'price', before: 1200, after: 1500 }]);
+  });
+
+  it('treats a missing side as every field added or removed', () => {
+    expect(snapshotDiff(JSON.stringify({ id: '7', total: 10 }), null)).toEqual([
+      { field: 'id', before: '7', after: undefined },
+      { field: 'total', before: 10, after: undefined }
+    ]);
+  });
+
+  it('compares nested values structurally', () => {
+    const before = JSON.stringify({ lines: [{ qty: 1 }] });
+    const after = JSON.stringify({ lines: [{ qty: 2 }] });
+    expect(snapshotDiff(before, after).map((c) => c.field)).toEqual(['lines']);
+  });
+});
@@ -0,0 +1,30 @@
+export type FieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+function parseSnapshot(value: string | null | undefined): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : { value: parsed };
+  } catch {
+    return { value };
+  }
+}
+
+export function snapshotDiff(before: string | null | undefined, after: string | null | undefined): FieldChange[] {
+  const a = parseSnapshot(before);
+  const b = parseSnapshot(after);
+  const fields = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+
+  return fields
+    .filter((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+    .map((field) => ({ field, before: a[field], after: b[field] }));
+}
+
+export function formatSnapshotValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,19 @@
+import { cropRect } from './image.utils';
+
+describe('cropRect', () => {
+  it('takes the centred square of a landscape image', () => {
+    expect(cropRect(800, 600)).toEqual({ x: 100, y: 0, side: 600 });
+  });
+
+  it('shrinks the square when zoomed in', () => {
+    expect(cropRect(800, 600, 2)).toEqual({ x: 250, y: 150, side: 300 });
+  });
+
+  it('keeps the square inside the image when the focus is at an edge', () => {
+    expect(cropRect(800, 600, 2, 0, 1)).toEqual({ x: 0, y: 300, side: 300 });
+  });
+
+  it('never zooms out past the full image', () => {
+    expect(cropRect(400, 400, 0.5)).toEqual({ x: 0, y: 0, side: 400 });
+  });
+});
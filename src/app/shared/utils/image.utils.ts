@@ -0,0 +1,36 @@
+import { clamp } from './math.utils';
+
+export type CropRect = {
+  x: number;
+  y: number;
+  side: number;
+};
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export function cropRect(width: number, height: number, zoom = 1, focusX = 0.5, focusY = 0.5): CropRect {
+  const side = Math.min(width, height) / Math.max(1, zoom);
+  return {
+    x: clamp(focusX * width - side / 2, 0, width - side),
+    y: clamp(focusY * height - side / 2, 0, height - side),
+    side
+  };
+}
+
+export function drawCrop(canvas: HTMLCanvasElement, source: CanvasImageSource, rect: CropRect, size: number): void {
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(source, rect.x, rect.y, rect.side, rect.side, 0, 0, size, size);
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/jpeg', quality = 0.85): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+}
@@ -0,0 +1,32 @@
+import { adjustByPercent, marginPercent, roundTo } from './math.utils';
+
+describe('roundTo', () => {
+  it('rounds to the nearest step without float noise', () => {
+    expect(roundTo(4.123, 0.01)).toBe(4.12);
+    expect(roundTo(4.126, 0.05)).toBe(4.15);
+    expect(roundTo(12.5, 1)).toBe(13);
+  });
+});
+
+describe('adjustByPercent', () => {
+  it('applies increases and decreases', () => {
+    expect(adjustByPercent(10, 5)).toBe(10.5);
+    expect(adjustByPercent(10, -12.5)).toBe(8.75);
+    expect(adjustByPercent(3.33, 10, 0.05)).toBe(3.65);
+  });
+
+  it('never goes below zero', () => {
+    expect(adjustByPercent(10, -150)).toBe(0);
+  });
+});
+
+describe('marginPercent', () => {
+  it('computes margin on the selling price', () => {
+    expect(marginPercent(6, 8)).toBe(25);
+  });
+
+  it('is null without a cost or price', () => {
+    expect(marginPercent(null, 8)).toBeNull();
+    expect(marginPercent(6, 0)).toBeNull();
+  });
+});
@@ -5,3 +5,17 @@ export function sumBy<T>(items: T[], pick: (item: T) => number): number {
 export function clamp(n: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, n));
 }
+
+export function roundTo(n: number, step: number): number {
+  if (step <= 0) return n;
+  return Number((Math.round(n / step) * step).toFixed(2));
+}
+
+export function adjustByPercent(value: number, percent: number, step = 0.01): number {
+  return Math.max(0, roundTo(value * (1 + percent / 100), step));
+}
+
+export function marginPercent(cost: number | null | undefined, price: number | null | undefined): number | null {
+  if (cost === null || cost === undefined || !price) return null;
+  return ((price - cost) / price) * 100;
+}
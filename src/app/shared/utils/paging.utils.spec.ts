@@ -0,0 +1,41 @@
+import { of } from 'rxjs';
+
+import { fetchAllPages, type PageChunk } from './paging.utils';
+
+function pager(total: number, size: number) {
+  const requested: number[] = [];
+  const fetch = (page: number) => {
+    requested.push(page);
+    const items = Array.from({ length: Math.max(0, Math.min(size, total - page * size)) }, (_, i) => page * size + i);
+    return of<PageChunk<number>>({ items, total });
+  };
+  return { fetch, requested };
+}
+
+describe('fetchAllPages', () => {
+  it('requests pages until the total is reached', () => {
+    const { fetch, requested } = pager(5, 2);
+    const results: number[][] = [];
+    fetchAllPages(fetch, 2).subscribe((items) => results.push(items));
+
+    expect(requested).toEqual([0, 1, 2]);
+    expect(results).toEqual([[0, 1, 2, 3, 4]]);
+  });
+
+  it('stops after the first page when everything fits', () => {
+    const { fetch, requested } = pager(2, 2);
+    const results: number[][] = [];
+    fetchAllPages(fetch, 2).subscribe((items) => results.push(items));
+
+    expect(requested).toEqual([0]);
+    expect(results).toEqual([[0, 1]]);
+  });
+
+  it('stops when a page comes back empty', () => {
+    const fetch = () => of<PageChunk<number>>({ items: [], total: 10 });
+    const results: number[][] = [];
+    fetchAllPages(fetch, 2).subscribe((items) => results.push(items));
+
+    expect(results).toEqual([[]]);
+  });
+});
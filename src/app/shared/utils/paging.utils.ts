@@ -0,0 +1,13 @@
+import { EMPTY, type Observable, expand, reduce } from 'rxjs';
+
+export type PageChunk<T> = {
+  items: T[];
+  total: number;
+};
+
+export function fetchAllPages<T>(fetch: (page: number) => Observable<PageChunk<T>>, size: number): Observable<T[]> {
+  return fetch(0).pipe(
+    expand((chunk, i) => ((i + 1) * size < chunk.total && chunk.items.length ? fetch(i + 1) : EMPTY)),
+    reduce((items, chunk) => items.concat(chunk.items), [] as T[])
+  );
+}
@@ -0,0 +1,23 @@
+import { passwordIssues, passwordStrength } from './password.utils';
+
+describe('password policy', () => {
+  it('accepts a long mixed password', () => {
+    expect(passwordIssues('Correct-Horse-42')).toEqual([]);
+    expect(passwordStrength('Correct-Horse-42')).toBe(100);
+  });
+
+  it('lists every rule a weak password misses', () => {
+    expect(passwordIssues('abc')).toEqual([
+      'At least 10 characters',
+      'An uppercase letter',
+      'A number',
+      'A symbol'
+    ]);
+  });
+
+  it('rejects passwords containing the name or email', () => {
+    expect(passwordIssues('Amina-Store-2024', ['Amina Juma', 'amina@example.com'])).toContain(
+      'Must not contain your name or email'
+    );
+  });
+});
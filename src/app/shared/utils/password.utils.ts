@@ -0,0 +1,27 @@
+export const PASSWORD_MIN_LENGTH = 10;
+
+const PASSWORD_RULES: Array<{ message: string; test: (value: string) => boolean }> = [
+  { message: `At least ${PASSWORD_MIN_LENGTH} characters`, test: (v) => v.length >= PASSWORD_MIN_LENGTH },
+  { message: 'An uppercase letter', test: (v) => /[A-Z]/.test(v) },
+  { message: 'A lowercase letter', test: (v) => /[a-z]/.test(v) },
+  { message: 'A number', test: (v) => /\d/.test(v) },
+  { message: 'A symbol', test: (v) => /[^A-Za-z0-9]/.test(v) }
+];
+
+export function passwordIssues(value: string, context: string[] = []): string[] {
+  const issues = PASSWORD_RULES.filter((rule) => !rule.test(value)).map((rule) => rule.message);
+
+  const lower = value.toLowerCase();
+  const reused = context
+    .flatMap((c) => String(c ?? '').toLowerCase().split('@')[0].split(/[^a-z0-9]+/))
+    .some((part) => part.length >= 3 && lower.includes(part));
+  if (reused) issues.push('Must not contain your name or email');
+
+  return issues;
+}
+
+export function passwordStrength(value: string): number {
+  if (!value) return 0;
+  const passed = PASSWORD_RULES.filter((rule) => rule.test(value)).length;
+  return Math.round((passed / PASSWORD_RULES.length) * 100);
+}
@@ -0,0 +1,85 @@
+import { MODULES, type ModuleKey, type PermissionAction, type PermissionGrant } from '../models/permission';
+import { applyOverrides, findGrant, isAllowed, isOverridden, overridesFrom, permissionMatrix } from './permission.utils';
+
+const ACTIONS: PermissionAction[] = ['view', 'create', 'edit', 'delete'];
+
+function grant(module: ModuleKey, flags: Partial<Omit<PermissionGrant, 'module'>> = {}): PermissionGrant {
+  return { module, canView: false, canCreate: false, canEdit: false, canDelete: false, ...flags };
+}
+
+describe('permission matrix', () => {
+  it('denies every module and action when there are no grants', () => {
+    for (const { key } of MODULES) {
+      for (const action of ACTIONS) {
+        expect(isAllowed([], key, action)).withContext(`${key}/${action}`).toBeFalse();
+      }
+    }
+  });
+
+  it('allows every module and action for admins', () => {
+    for (const { key } of MODULES) {
+      for (const action of ACTIONS) {
+        expect(isAllowed([], key, action, true)).withContext(`${key}/${action}`).toBeTrue();
+      }
+    }
+  });
+
+  it('maps each action to its own flag', () => {
+    const cases: Array<[Partial<Omit<PermissionGrant, 'module'>>, PermissionAction]> = [
+      [{ canView: true }, 'view'],
+      [{ canCreate: true }, 'create'],
+      [{ canEdit: true }, 'edit'],
+      [{ canDelete: true }, 'delete']
+    ];
+
+    for (const [flags, allowed] of cases) {
+      const grants = [grant('SALES', flags)];
+      for (const action of ACTIONS) {
+        expect(isAllowed(grants, 'SALES', action)).withContext(`${allowed} grant, ${action} check`).toBe(action === allowed);
+      }
+    }
+  });
+
+  it('keeps grants scoped to their module', () => {
+    const grants = [grant('SALES', { canView: true, canCreate: true, canEdit: true, canDelete: true })];
+
+    expect(isAllowed(grants, 'SALES', 'delete')).toBeTrue();
+    expect(isAllowed(grants, 'MY_SALES', 'view')).toBeFalse();
+    expect(isAllowed(grants, 'PURCHASING', 'create')).toBeFalse();
+  });
+
+  it('matches module keys case-insensitively', () => {
+    const grants = [{ ...grant('PRODUCTS', { canEdit: true }), module: 'products' }];
+
+    expect(findGrant(grants, 'PRODUCTS')?.canEdit).toBeTrue();
+    expect(isAllowed(grants, 'PRODUCTS', 'edit')).toBeTrue();
+  });
+
+  it('fills every module when building a matrix from partial grants', () => {
+    const matrix = permissionMatrix([grant('REPORTS', { canView: true })]);
+
+    expect(matrix.map((m) => m.module)).toEqual(MODULES.map((m) => m.key));
+    expect(isAllowed(matrix, 'REPORTS', 'view')).toBeTrue();
+    expect(isAllowed(matrix, 'REPORTS', 'create')).toBeFalse();
+  });
+
+  it('lets per-user overrides replace the role defaults for their module only', () => {
+    const role = [grant('SALES', { canView: true, canCreate: true }), grant('REPORTS', { canView: true })];
+    const effective = applyOverrides(role, [grant('SALES', { canView: true })]);
+
+    expect(isAllowed(effective, 'SALES', 'view')).toBeTrue();
+    expect(isAllowed(effective, 'SALES', 'create')).toBeFalse();
+    expect(isAllowed(effective, 'REPORTS', 'view')).toBeTrue();
+  });
+
+  it('reports only the rows and cells that differ from the role', () => {
+    const role = [grant('SALES', { canView: true, canCreate: true })];
+    const matrix = applyOverrides(role, [grant('EXPENSES', { canView: true })]);
+
+    expect(overridesFrom(matrix, role).map((o) => o.module)).toEqual(['EXPENSES']);
+    expect(overridesFrom(permissionMatrix(role), role)).toEqual([]);
+    expect(isOverridden(matrix, role, 'EXPENSES', 'canView')).toBeTrue();
+    expect(isOverridden(matrix, role, 'EXPENSES', 'canCreate')).toBeFalse();
+    expect(isOverridden(matrix, role, 'SALES', 'canCreate')).toBeFalse();
+  });
+});
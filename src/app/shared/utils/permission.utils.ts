@@ -0,0 +1,60 @@
+import { MODULES, type ModuleKey, type PermissionAction, type PermissionGrant } from '../models/permission';
+
+export type PermissionFlag = keyof Omit<PermissionGrant, 'module'>;
+
+export const PERMISSION_FLAGS: PermissionFlag[] = ['canView', 'canCreate', 'canEdit', 'canDelete'];
+
+const ACTION_FLAGS: Record<PermissionAction, PermissionFlag> = {
+  view: 'canView',
+  create: 'canCreate',
+  edit: 'canEdit',
+  delete: 'canDelete'
+};
+
+export function findGrant(grants: readonly PermissionGrant[], module: ModuleKey): PermissionGrant | undefined {
+  return grants.find((g) => String(g.module).toUpperCase() === module);
+}
+
+export function isAllowed(
+  grants: readonly PermissionGrant[],
+  module: ModuleKey,
+  action: PermissionAction,
+  isAdmin = false
+): boolean {
+  if (isAdmin) return true;
+  return Boolean(findGrant(grants, module)?.[ACTION_FLAGS[action]]);
+}
+
+export function permissionMatrix(grants: readonly PermissionGrant[]): PermissionGrant[] {
+  return MODULES.map(({ key }) => {
+    const g = findGrant(grants, key);
+    return {
+      module: key,
+      canView: Boolean(g?.canView),
+      canCreate: Boolean(g?.canCreate),
+      canEdit: Boolean(g?.canEdit),
+      canDelete: Boolean(g?.canDelete)
+    };
+  });
+}
+
+export function applyOverrides(defaults: readonly PermissionGrant[], overrides: readonly PermissionGrant[]): PermissionGrant[] {
+  return permissionMatrix(defaults).map((row) => {
+    const o = findGrant(overrides, row.module as ModuleKey);
+    return o ? { ...row, canView: o.canView, canCreate: o.canCreate, canEdit: o.canEdit, canDelete: o.canDelete } : row;
+  });
+}
+
+export function overridesFrom(matrix: readonly PermissionGrant[], defaults: readonly PermissionGrant[]): PermissionGrant[] {
+  const base = permissionMatrix(defaults);
+  return permissionMatrix(matrix).filter((row, i) => PERMISSION_FLAGS.some((f) => row[f] !== base[i][f]));
+}
+
+export function isOverridden(
+  matrix: readonly PermissionGrant[],
+  defaults: readonly PermissionGrant[],
+  module: ModuleKey,
+  flag: PermissionFlag
+): boolean {
+  return Boolean(findGrant(matrix, module)?.[flag]) !== Boolean(findGrant(defaults, module)?.[flag]);
+}
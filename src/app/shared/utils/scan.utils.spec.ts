@@ -0,0 +1,48 @@
+import { createScanDetector, findByCode } from './scan.utils';
+
+function type(keys: string[], start: number, gap: number, detector = createScanDetector()): Array<string | null> {
+  return keys.map((key, i) => detector.push(key, start + i * gap));
+}
+
+describe('createScanDetector', () => {
+  it('returns the code when a fast burst ends with Enter', () => {
+    const results = type([...'6001007', 'Enter'], 1000, 10);
+    expect(results.at(-1)).toBe('6001007');
+  });
+
+  it('ignores human typing speed', () => {
+    const results = type([...'6001007', 'Enter'], 1000, 120);
+    expect(results.at(-1)).toBeNull();
+  });
+
+  it('ignores bursts shorter than the minimum length', () => {
+    expect(type(['1', '2', 'Enter'], 1000, 10).at(-1)).toBeNull();
+  });
+
+  it('starts a new code after a pause', () => {
+    const detector = createScanDetector();
+    type([...'999'], 1000, 10, detector);
+    expect(type([...'12345', 'Enter'], 2000, 10, detector).at(-1)).toBe('12345');
+  });
+});
+
+describe('findByCode', () => {
+  const items = [
+    { id: '1', sku: 'PAN-500', barcode: '6001007' },
+    { id: '2', sku: '6001007', barcode: null },
+    { id: '3', sku: 'IBU-200', barcode: '' }
+  ];
+
+  it('prefers a barcode match over a SKU match', () => {
+    expect(findByCode(items, '6001007')?.id).toBe('1');
+  });
+
+  it('matches SKUs case-insensitively', () => {
+    expect(findByCode(items, ' ibu-200 ')?.id).toBe('3');
+  });
+
+  it('returns nothing for blank or unknown codes', () => {
+    expect(findByCode(items, '')).toBeUndefined();
+    expect(findByCode(items, 'nope')).toBeUndefined();
+  });
+});
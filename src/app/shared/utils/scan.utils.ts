@@ -0,0 +1,42 @@
+export type ScanDetector = {
+  push(key: string, time: number): string | null;
+};
+
+type Coded = {
+  sku: string;
+  barcode?: string | null;
+};
+
+export const SCAN_MAX_GAP_MS = 40;
+export const SCAN_MIN_LENGTH = 4;
+
+export function createScanDetector(maxGapMs = SCAN_MAX_GAP_MS, minLength = SCAN_MIN_LENGTH): ScanDetector {
+  let buffer = '';
+  let last = Number.NEGATIVE_INFINITY;
+
+  return {
+    push(key: string, time: number): string | null {
+      if (time - last > maxGapMs) buffer = '';
+      last = time;
+
+      if (key === 'Enter') {
+        const code = buffer;
+        buffer = '';
+        return code.length >= minLength ? code : null;
+      }
+
+      if (key.length === 1) buffer += key;
+      else if (key !== 'Shift') buffer = '';
+      return null;
+    }
+  };
+}
+
+export function findByCode<T extends Coded>(items: T[], code: string): T | undefined {
+  const needle = code.trim().toLowerCase();
+  if (!needle) return undefined;
+  return (
+    items.find((item) => (item.barcode ?? '').trim().toLowerCase() === needle) ??
+    items.find((item) => item.sku.trim().toLowerCase() === needle)
+  );
+}
@@ -5,3 +5,9 @@ export function isBlank(value: unknown): boolean {
 export function safeTrim(value: unknown): string {
   return String(value ?? '').trim();
 }
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
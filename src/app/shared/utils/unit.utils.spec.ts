@@ -0,0 +1,42 @@
+import { breakdownQuantity, conversionChain, formatQuantity, toBaseQuantity, unitOptions } from './unit.utils';
+
+const units = [
+  { unit: 'box', factor: 100 },
+  { unit: 'strip', factor: 10 }
+];
+
+describe('unitOptions', () => {
+  it('lists the base unit first and packs from smallest to largest', () => {
+    expect(unitOptions('tablet', units).map((u) => u.unit)).toEqual(['tablet', 'strip', 'box']);
+  });
+});
+
+describe('toBaseQuantity', () => {
+  it('converts pack quantities to the base unit', () => {
+    expect(toBaseQuantity(3, 'box', units)).toBe(300);
+    expect(toBaseQuantity(3, 'tablet', units)).toBe(3);
+    expect(toBaseQuantity(3, null, units)).toBe(3);
+  });
+});
+
+describe('formatQuantity', () => {
+  it('shows base quantities in the chosen unit', () => {
+    expect(formatQuantity(250, 'box', units)).toBe('2.5 box');
+    expect(formatQuantity(250, 'strip', units)).toBe('25 strip');
+  });
+});
+
+describe('breakdownQuantity', () => {
+  it('splits into the largest whole packs', () => {
+    expect(breakdownQuantity(234, 'tablet', units)).toBe('2 box 3 strip 4 tablet');
+    expect(breakdownQuantity(-10, 'tablet', units)).toBe('-1 strip');
+    expect(breakdownQuantity(0, 'tablet', units)).toBe('0 tablet');
+  });
+});
+
+describe('conversionChain', () => {
+  it('describes every unit relative to the largest pack', () => {
+    expect(conversionChain('tablet', units)).toBe('1 box = 10 strip = 100 tablet');
+    expect(conversionChain('tablet', [])).toBe('');
+  });
+});
@@ -0,0 +1,57 @@
+export type UnitFactor = {
+  unit: string;
+  factor: number;
+};
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? String(n) : String(Number(n.toFixed(2)));
+}
+
+export function unitOptions(baseUnit: string | null | undefined, units: UnitFactor[]): UnitFactor[] {
+  const packs = units.filter((u) => u.unit !== baseUnit && u.factor > 0).sort((a, b) => a.factor - b.factor);
+  return baseUnit ? [{ unit: baseUnit, factor: 1 }, ...packs] : packs;
+}
+
+export function unitFactor(units: UnitFactor[], unit: string | null | undefined): number {
+  if (!unit) return 1;
+  return units.find((u) => u.unit === unit)?.factor ?? 1;
+}
+
+export function toBaseQuantity(quantity: number, unit: string | null | undefined, units: UnitFactor[]): number {
+  return quantity * unitFactor(units, unit);
+}
+
+export function fromBaseQuantity(quantity: number, unit: string | null | undefined, units: UnitFactor[]): number {
+  return quantity / unitFactor(units, unit);
+}
+
+export function formatQuantity(quantity: number, unit: string | null | undefined, units: UnitFactor[]): string {
+  const value = formatNumber(fromBaseQuantity(quantity, unit, units));
+  return unit ? `${value} ${unit}` : value;
+}
+
+export function breakdownQuantity(quantity: number, baseUnit: string | null | undefined, units: UnitFactor[]): string {
+  const options = unitOptions(baseUnit, units).reverse();
+  if (!options.length || quantity === 0) return formatQuantity(quantity, baseUnit, units);
+
+  const parts: string[] = [];
+  let rest = Math.abs(quantity);
+  for (const u of options) {
+    const count = Math.floor(rest / u.factor);
+    if (count > 0) {
+      parts.push(`${count} ${u.unit}`);
+      rest -= count * u.factor;
+    }
+  }
+  if (rest > 0) parts.push(formatNumber(rest));
+
+  return `${quantity < 0 ? '-' : ''}${parts.join(' ')}`;
+}
+
+export function conversionChain(baseUnit: string | null | undefined, units: UnitFactor[]): string {
+  const options = unitOptions(baseUnit, units).reverse();
+  if (options.length < 2) return '';
+
+  const largest = options[0].factor;
+  return options.map((u, i) => `${i === 0 ? 1 : formatNumber(largest / u.factor)} ${u.unit}`).join(' = ');
+}
@@ -0,0 +1,21 @@
+import { readXlsx, writeXlsx } from './xlsx.utils';
+
+describe('xlsx', () => {
+  it('reads back the rows it writes', async () => {
+    const blob = writeXlsx([
+      ['SKU', 'Name', 'Price'],
+      ['PAN-500', 'Syrup <kids> & "more"', 4.5],
+      ['IBU-200', null, 3]
+    ]);
+
+    expect(await readXlsx(blob)).toEqual([
+      ['SKU', 'Name', 'Price'],
+      ['PAN-500', 'Syrup <kids> & "more"', '4.5'],
+      ['IBU-200', '', '3']
+    ]);
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await expectAsync(readXlsx(new Blob(['SKU,Name']))).toBeRejectedWithError('Not a valid XLSX file');
+  });
+});
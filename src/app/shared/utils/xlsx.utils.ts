@@ -0,0 +1,255 @@
+export type XlsxCell = string | number | null | undefined;
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  offset: number;
+};
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_ENTRY = 0x04034b50;
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries = new Map<string, ZipEntry>();
+
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_DIRECTORY) end--;
+  if (end < 0) throw new Error('Not a valid XLSX file');
+
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+  for (let i = 0; i < count && view.getUint32(p, true) === DIRECTORY_ENTRY; i++) {
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    entries.set(decoder.decode(bytes.subarray(p + 46, p + 46 + nameLength)), {
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      offset: view.getUint32(p + 42, true)
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function entryText(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return decoder.decode(data);
+  if (entry.method !== 8) throw new Error('Unsupported XLSX compression');
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function zip(files: Record<string, string>): Blob {
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_ENTRY, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(12, 0x21, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const ev = new DataView(entry.buffer);
+    ev.setUint32(0, DIRECTORY_ENTRY, true);
+    ev.setUint16(4, 20, true);
+    ev.setUint16(6, 20, true);
+    ev.setUint16(8, 0x0800, true);
+    ev.setUint16(14, 0x21, true);
+    ev.setUint32(16, crc, true);
+    ev.setUint32(20, data.length, true);
+    ev.setUint32(24, data.length, true);
+    ev.setUint16(28, nameBytes.length, true);
+    ev.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+
+    parts.push(local, data);
+    directory.push(entry);
+    offset += local.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0);
+  const end = new Uint8Array(22);
+  const dv = new DataView(end.buffer);
+  dv.setUint32(0, END_OF_DIRECTORY, true);
+  dv.setUint16(8, directory.length, true);
+  dv.setUint16(10, directory.length, true);
+  dv.setUint32(12, directorySize, true);
+  dv.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end] as BlobPart[], { type: XLSX_TYPE });
+}
+
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function firstSheetPath(workbook: Document | null, rels: Document | null): string {
+  const relId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const rel = Array.from(rels?.getElementsByTagName('Relationship') ?? []).find((r) => r.getAttribute('Id') === relId);
+  const target = rel?.getAttribute('Target');
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+export async function readXlsx(file: Blob): Promise<string[][]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const entries = zipEntries(bytes);
+
+  const read = async (path: string): Promise<Document | null> => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await entryText(bytes, entry)) : null;
+  };
+
+  const [workbook, rels, strings] = await Promise.all([
+    read('xl/workbook.xml'),
+    read('xl/_rels/workbook.xml.rels'),
+    read('xl/sharedStrings.xml')
+  ]);
+
+  const sharedStrings = Array.from(strings?.getElementsByTagName('si') ?? []).map((si) =>
+    Array.from(si.getElementsByTagName('t'))
+      .map((t) => t.textContent ?? '')
+      .join('')
+  );
+
+  const sheet = await read(firstSheetPath(workbook, rels));
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowEl.getElementsByTagName('c'))) {
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      const value =
+        type === 's'
+          ? (sharedStrings[Number(raw)] ?? '')
+          : type === 'inlineStr'
+            ? Array.from(cell.getElementsByTagName('t'))
+                .map((t) => t.textContent ?? '')
+                .join('')
+            : raw;
+
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+export function writeXlsx(rows: XlsxCell[][], sheetName = 'Sheet1'): Blob {
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (value === null || value === undefined || value === '') return '';
+      if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  return zip({
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows.join('')}</sheetData>` +
+      '</worksheet>'
+  });
+}
+
+export function downloadXlsx(filename: string, rows: XlsxCell[][], sheetName?: string): void {
+  const url = URL.createObjectURL(writeXlsx(rows, sheetName));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename.endsWith('.xlsx') ? filename : `${filename}.xlsx`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
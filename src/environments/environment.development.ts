@@ -1,5 +1,7 @@
 export const environment = {
   production: false,
   apiBaseUrl: 'http://localhost:8083',
-  graphqlUrl: 'http://localhost:8083/graphql'
+  graphqlUrl: 'http://localhost:8083/graphql',
+  idleLockMinutes: 10,
+  fileStore: 'local'
 };
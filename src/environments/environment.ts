@@ -1,5 +1,7 @@
 export const environment = {
   production: true,
   apiBaseUrl: '',
-  graphqlUrl: 'http://16.170.25.198:8080/graphql'
+  graphqlUrl: 'http://16.170.25.198:8080/graphql',
+  idleLockMinutes: 10,
+  fileStore: 'remote'
 };